@@ -0,0 +1,37 @@
+import { useRef } from 'react'
+import { Paperclip } from 'lucide-react'
+
+interface AttachmentButtonProps {
+  disabled?: boolean
+  onFiles: (files: File[]) => void
+}
+
+export default function AttachmentButton({ disabled, onFiles }: AttachmentButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="p-2 mb-1.5 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40"
+        aria-label="Attach files"
+        title="Attach images, PDFs or text files (or drop / paste them)"
+      >
+        <Paperclip size={18} className="text-gray-500" />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files || []))
+          // Allow picking the same file again
+          e.target.value = ''
+        }}
+      />
+    </>
+  )
+}
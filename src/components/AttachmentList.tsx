@@ -0,0 +1,55 @@
+import { FileCode, FileText, X } from 'lucide-react'
+import { formatFileSize, type Attachment } from '../lib/attachments'
+
+interface AttachmentListProps {
+  attachments: Attachment[]
+  // Pending attachments can be removed before sending; sent ones can't
+  onRemove?: (attachmentId: string) => void
+  // Lighter styling inside the blue user bubble
+  inverted?: boolean
+}
+
+// Thumbnails for images, chips for PDFs and text files
+export default function AttachmentList({ attachments, onRemove, inverted }: AttachmentListProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="nodrag flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative group/attachment" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+          {attachment.kind === 'image' ? (
+            <a href={attachment.dataUrl} target="_blank" rel="noreferrer">
+              <img
+                src={attachment.dataUrl}
+                alt={attachment.name}
+                className="h-16 w-16 object-cover rounded-lg border border-gray-200"
+              />
+            </a>
+          ) : (
+            <div
+              className={`flex items-center gap-1.5 h-10 max-w-[180px] px-2 rounded-lg border text-xs ${
+                inverted ? 'bg-blue-500 border-blue-400 text-white' : 'bg-gray-50 border-gray-200 text-gray-700'
+              }`}
+            >
+              {attachment.kind === 'pdf' ? (
+                <FileText size={14} className="flex-shrink-0" />
+              ) : (
+                <FileCode size={14} className="flex-shrink-0" />
+              )}
+              <span className="truncate">{attachment.name}</span>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(attachment.id)}
+              className="absolute -top-1.5 -right-1.5 p-0.5 bg-gray-700 text-white rounded-full hover:bg-gray-800"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <X size={10} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
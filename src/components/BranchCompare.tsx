@@ -0,0 +1,82 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { X } from 'lucide-react'
+import { getLatestDescendants, getSiblings, type ConversationTree } from '../lib/conversationTree'
+
+interface BranchCompareProps {
+  conversation: ConversationTree
+  messageId: string
+  activeIds: Set<string>
+  onSelect: (messageId: string) => void
+  onClose: () => void
+}
+
+// Side-by-side view of every alternative for one message, each with the branch that follows it
+export default function BranchCompare({ conversation, messageId, activeIds, onSelect, onClose }: BranchCompareProps) {
+  const siblings = getSiblings(conversation, messageId)
+
+  return (
+    <div className="nodrag fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Compare branches</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-x-auto overflow-y-hidden p-4">
+          <div className="flex gap-4 h-full">
+            {siblings.map((sibling, index) => {
+              const branch = [sibling, ...getLatestDescendants(conversation, sibling.id)].filter(
+                (m) => m.role !== 'tool'
+              )
+              const isActive = activeIds.has(sibling.id)
+              return (
+                <div
+                  key={sibling.id}
+                  className={`flex flex-col min-w-[280px] flex-1 rounded-lg border ${
+                    isActive ? 'border-purple-400' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                    <span className="text-xs font-medium text-gray-700">
+                      Branch {index + 1}
+                      {isActive && <span className="ml-2 text-purple-700">(current)</span>}
+                    </span>
+                    <button
+                      onClick={() => onSelect(sibling.id)}
+                      disabled={isActive}
+                      className="px-2 py-1 text-xs font-medium text-purple-700 bg-white hover:bg-purple-100 rounded transition-colors disabled:opacity-40"
+                    >
+                      Use this branch
+                    </button>
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-3 space-y-3 max-h-[65vh]">
+                    {branch.map((message) => (
+                      <div key={message.id}>
+                        <p className="text-[11px] font-medium text-gray-500 mb-1">
+                          {message.role === 'user' ? 'You' : message.model || 'AI'}
+                        </p>
+                        <div className="text-sm text-gray-700 prose prose-sm max-w-none select-text">
+                          <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { ChevronLeft, ChevronRight, Columns2 } from 'lucide-react'
+import type { Message } from '../lib/chatTypes'
+
+interface BranchNavigatorProps {
+  siblings: Message[]
+  messageId: string
+  disabled?: boolean
+  onSelect: (messageId: string) => void
+  onCompare: () => void
+}
+
+// "‹ 2 of 3 ›" under a message that has alternative branches
+export default function BranchNavigator({ siblings, messageId, disabled, onSelect, onCompare }: BranchNavigatorProps) {
+  if (siblings.length < 2) return null
+  const index = siblings.findIndex((m) => m.id === messageId)
+
+  return (
+    <div className="nodrag not-prose mt-2 flex items-center gap-1 text-[11px] opacity-70">
+      <button
+        onClick={() => onSelect(siblings[index - 1].id)}
+        disabled={disabled || index <= 0}
+        className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label="Previous branch"
+      >
+        <ChevronLeft size={12} />
+      </button>
+      <span className="tabular-nums">
+        {index + 1} of {siblings.length}
+      </span>
+      <button
+        onClick={() => onSelect(siblings[index + 1].id)}
+        disabled={disabled || index >= siblings.length - 1}
+        className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label="Next branch"
+      >
+        <ChevronRight size={12} />
+      </button>
+      <button
+        onClick={onCompare}
+        className="ml-1 p-0.5 rounded hover:bg-black/10"
+        aria-label="Compare branches"
+        title="Compare branches side by side"
+      >
+        <Columns2 size={12} />
+      </button>
+    </div>
+  )
+}
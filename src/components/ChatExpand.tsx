@@ -1,44 +1,92 @@
 import { useRef, useEffect } from 'react'
-import { X, ArrowUp, Reply, Undo2, Redo2, Settings, ChevronDown, ChevronUp } from 'lucide-react'
+import { X, ArrowUp, Undo2, Redo2, Settings, ChevronDown, ChevronUp, GitBranch, RefreshCw, Square, Pin, PinOff } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
-
-type AIModel = 'ChatGPT' | 'Claude' | 'Gemini'
-
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  replyTo?: {
-    id: string
-    content: string
-    role: 'user' | 'assistant'
-  }
-}
+import type { Message, ToolCall } from '../lib/chatTypes'
+import type { Attachment } from '../lib/attachments'
+import type { ResponseFormatSettings } from '../lib/responseFormat'
+import { getOpenComparison, getSiblings, type ConversationTree } from '../lib/conversationTree'
+import ToolCallCard from './ToolCallCard'
+import ReplyPreview from './ReplyPreview'
+import AttachmentList from './AttachmentList'
+import AttachmentButton from './AttachmentButton'
+import ReasoningBlock from './ReasoningBlock'
+import MessageStatus from './MessageStatus'
+import BranchNavigator from './BranchNavigator'
+import CompareModelsEditor from './CompareModelsEditor'
+import FallbackModelsEditor from './FallbackModelsEditor'
+import ResponseFormatEditor from './ResponseFormatEditor'
+import StructuredReply from './StructuredReply'
+import CompareResponses from './CompareResponses'
+import ContextGauge from './ContextGauge'
+import ModelPicker from './ModelPicker'
+import ProviderPicker from './ProviderPicker'
+import SamplingSettings from './SamplingSettings'
+import SystemPromptEditor from './SystemPromptEditor'
+import { formatMessageUsage, formatUsage, type UsageTotals } from '../lib/usage'
+import { getModelLabel, supportsParameter, type ModelCatalog } from '../lib/modelCatalog'
+import type { ProviderId } from '../lib/providers'
+import type { SamplingParams } from '../lib/sampling'
+import type { ContextEstimate, ContextStrategy } from '../lib/contextBudget'
 
 interface ChatExpandProps {
   messages: Message[]
   input: string
   isLoading: boolean
-  replyingTo: Message | null
+  replyingTo: Message[]
   copiedCodeBlock: string | null
   chatLabel?: string
-  selectedModel: AIModel
+  usage: UsageTotals
+  provider: ProviderId
+  onProviderChange: (provider: ProviderId) => void
+  selectedModel: string
+  modelCatalog: ModelCatalog
   temperature: number
+  sampling: SamplingParams
+  systemPrompt: string
   isSettingsExpanded: boolean
-  deletedMessages: Message[]
+  conversation: ConversationTree
+  canRedo: boolean
   onClose: () => void
   onInputChange: (value: string) => void
   onSend: () => void
   onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void
   onCancelReply: () => void
+  onRemoveReply: (messageId: string) => void
   onUndo: () => void
   onRedo: () => void
-  onModelChange: (model: AIModel) => void
+  onSelectBranch: (messageId: string) => void
+  onCompareBranches: (messageId: string) => void
+  onFork: (messageId: string) => void
+  onTogglePin: (messageId: string) => void
+  contextEstimate: ContextEstimate
+  contextStrategy: ContextStrategy
+  onContextStrategyChange: (strategy: ContextStrategy) => void
+  onStop: () => void
+  onContinue: (messageId: string) => void
+  attachments: Attachment[]
+  attachmentError: string | null
+  onAddFiles: (files: File[]) => void
+  onRemoveAttachment: (attachmentId: string) => void
+  responseFormat: ResponseFormatSettings
+  onResponseFormatChange: (value: ResponseFormatSettings) => void
+  fallbackModels: string[]
+  onFallbackModelsChange: (models: string[]) => void
+  onRegenerate: (messageId: string) => void
+  onKeepComparison: (messageId: string) => void
+  isCompareMode: boolean
+  compareModels: string[]
+  onCompareModeChange: (enabled: boolean) => void
+  onCompareModelsChange: (models: string[]) => void
+  onModelChange: (model: string) => void
   onTemperatureChange: (temp: number) => void
+  onSamplingChange: (sampling: SamplingParams) => void
+  onSystemPromptChange: (systemPrompt: string) => void
+  onResetSampling: () => void
   onToggleSettings: () => void
+  onSubmitToolResult: (toolCall: ToolCall, result: string) => void
   setCopiedCodeBlock: (id: string | null) => void
 }
 
@@ -110,34 +158,91 @@ export default function ChatExpand({
   replyingTo,
   copiedCodeBlock,
   chatLabel,
+  usage,
+  provider,
+  onProviderChange,
   selectedModel,
+  modelCatalog,
   temperature,
+  sampling,
+  systemPrompt,
   isSettingsExpanded,
-  deletedMessages,
+  conversation,
+  canRedo,
   onClose,
   onInputChange,
   onSend,
   onKeyDown,
   onCancelReply,
+  onRemoveReply,
   onUndo,
   onRedo,
+  onSelectBranch,
+  onCompareBranches,
+  onFork,
+  onTogglePin,
+  contextEstimate,
+  contextStrategy,
+  onContextStrategyChange,
+  onStop,
+  onContinue,
+  attachments,
+  attachmentError,
+  onAddFiles,
+  onRemoveAttachment,
+  responseFormat,
+  onResponseFormatChange,
+  fallbackModels,
+  onFallbackModelsChange,
+  onRegenerate,
+  onKeepComparison,
+  isCompareMode,
+  compareModels,
+  onCompareModeChange,
+  onCompareModelsChange,
   onModelChange,
   onTemperatureChange,
+  onSamplingChange,
+  onSystemPromptChange,
+  onResetSampling,
   onToggleSettings,
+  onSubmitToolResult,
   setCopiedCodeBlock,
 }: ChatExpandProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const modelInfo = modelCatalog.models.find((model) => model.id === selectedModel)
+  const supportsTemperature = supportsParameter(modelInfo, 'temperature')
 
   // Auto-scroll when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  const toolResults = new Map(
+    messages.filter((m) => m.role === 'tool').map((m) => [m.toolCallId, m.content])
+  )
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     onSend()
   }
 
+  const openComparison = getOpenComparison(conversation)
+  const canSend = (!!input.trim() || attachments.length > 0) && openComparison.length === 0
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    onAddFiles(files)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.files.length === 0) return
+    e.preventDefault()
+    onAddFiles(Array.from(e.dataTransfer.files))
+  }
+
   return (
     <div className="nodrag fixed inset-0 md:top-0 md:right-0 md:left-auto md:w-[700px] h-screen bg-white shadow-2xl md:border-l border-gray-200 z-50 flex flex-col">
       {/* Header */}
@@ -145,6 +250,15 @@ export default function ChatExpand({
         <h3 className="text-base sm:text-lg font-semibold text-gray-800 truncate mr-2">
           {chatLabel || 'AI Chat'} - Expanded View
         </h3>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          {usage.totalTokens > 0 && (
+            <span
+              className="text-xs sm:text-sm text-gray-500"
+              title={`${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens`}
+            >
+              {formatUsage(usage)}
+            </span>
+          )}
         <button
           onClick={onClose}
           className="p-1.5 sm:p-1 hover:bg-purple-100 rounded-md transition-colors flex-shrink-0"
@@ -152,6 +266,7 @@ export default function ChatExpand({
         >
           <X size={24} className="sm:w-5 sm:h-5 text-gray-500 hover:text-gray-700" />
         </button>
+        </div>
       </div>
 
       {/* Settings Card */}
@@ -164,7 +279,7 @@ export default function ChatExpand({
           <div className="flex items-center gap-2">
             <Settings size={16} className="text-purple-600" />
             <span className="text-xs font-medium text-purple-700">
-              {isSettingsExpanded ? 'Settings' : `${selectedModel} • ${temperature.toFixed(2)}`}
+              {isSettingsExpanded ? 'Settings' : `${getModelLabel(selectedModel, modelCatalog.models)} • ${supportsTemperature ? temperature.toFixed(2) : 'default'}`}
             </span>
           </div>
           {isSettingsExpanded ? (
@@ -177,30 +292,49 @@ export default function ChatExpand({
         {/* Expandable Settings Content */}
         {isSettingsExpanded && (
           <div className="px-4 pb-3 pt-1 space-y-3 animate-in slide-in-from-top-2 duration-200">
+            {/* Provider Switcher */}
+            <ProviderPicker value={provider} disabled={isLoading} onChange={onProviderChange} />
+
             {/* Model Switcher */}
             <div>
               <label className="text-xs font-medium text-gray-700 mb-2 block">
                 Model
               </label>
-              <div className="flex gap-2">
-                {(['ChatGPT', 'Claude', 'Gemini'] as AIModel[]).map((model) => (
-                  <button
-                    key={model}
-                    onClick={() => onModelChange(model)}
-                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                      selectedModel === model
-                        ? 'bg-purple-600 text-white shadow-md'
-                        : 'bg-white text-gray-600 hover:bg-purple-100'
-                    }`}
-                  >
-                    {model}
-                  </button>
-                ))}
-              </div>
+              <ModelPicker
+                value={selectedModel}
+                models={modelCatalog.models}
+                isLoading={modelCatalog.isLoading}
+                error={modelCatalog.error}
+                onChange={onModelChange}
+                onRefresh={modelCatalog.refresh}
+              />
             </div>
 
+            {/* Fallback Models */}
+            {provider === 'openrouter' && (
+              <FallbackModelsEditor
+                selectedModel={selectedModel}
+                fallbackModels={fallbackModels}
+                modelCatalog={modelCatalog}
+                onChange={onFallbackModelsChange}
+              />
+            )}
+
+            {/* Compare Models */}
+            <CompareModelsEditor
+              enabled={isCompareMode}
+              selectedModel={selectedModel}
+              compareModels={compareModels}
+              modelCatalog={modelCatalog}
+              onEnabledChange={onCompareModeChange}
+              onCompareModelsChange={onCompareModelsChange}
+            />
+
+            {/* System Prompt */}
+            <SystemPromptEditor value={systemPrompt} onChange={onSystemPromptChange} />
+
             {/* Temperature Control */}
-            <div>
+            <div className={supportsTemperature ? '' : 'opacity-50'} title={supportsTemperature ? undefined : 'Not supported by this model'}>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-xs font-medium text-gray-700">
                   Temperature
@@ -216,13 +350,24 @@ export default function ChatExpand({
                 step="0.01"
                 value={temperature}
                 onChange={(e) => onTemperatureChange(parseFloat(e.target.value))}
-                className="w-full h-2 bg-purple-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+                disabled={!supportsTemperature}
+                className="w-full h-2 bg-purple-200 rounded-lg appearance-none cursor-pointer accent-purple-600 disabled:cursor-not-allowed"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
                 <span>0 (Precise)</span>
                 <span>2 (Very Creative)</span>
               </div>
             </div>
+
+            {/* Sampling Parameters */}
+            <ResponseFormatEditor value={responseFormat} model={modelInfo} onChange={onResponseFormatChange} />
+
+            <SamplingSettings
+              sampling={sampling}
+              model={modelInfo}
+              onChange={onSamplingChange}
+              onReset={onResetSampling}
+            />
           </div>
         )}
       </div>
@@ -236,6 +381,16 @@ export default function ChatExpand({
         ) : (
           <div className="space-y-4">
             {messages.map((message) => {
+              if (message.role === 'tool') return null
+              if (message.contextEvent) {
+                return (
+                  <div key={message.id} className="flex justify-center">
+                    <span className="px-3 py-1 rounded-full bg-amber-50 border border-amber-200 text-xs text-amber-700">
+                      {message.content}
+                    </span>
+                  </div>
+                )
+              }
               const isContextMessage = message.content.startsWith('📎')
               return (
                 <div
@@ -245,7 +400,7 @@ export default function ChatExpand({
                   }`}
                 >
                   <div
-                    className={`rounded-2xl px-3 sm:px-5 py-3 sm:py-4 shadow-sm max-w-[90%] sm:max-w-[85%] ${
+                    className={`group relative rounded-2xl px-3 sm:px-5 py-3 sm:py-4 shadow-sm max-w-[90%] sm:max-w-[85%] ${
                       message.role === 'user'
                         ? 'bg-blue-600 text-white rounded-tr-sm'
                         : isContextMessage
@@ -253,97 +408,184 @@ export default function ChatExpand({
                         : 'bg-white rounded-tl-sm'
                     }`}
                   >
-                    {message.replyTo && (
-                      <div className="mb-3 pl-3 border-l-2 border-gray-400 opacity-70">
+                    {message.pinned && (
+                      <Pin size={14} className="absolute -top-1.5 -left-1.5 text-purple-600 fill-purple-200" aria-label="Pinned" />
+                    )}
+                    {message.replyTo?.map((reply) => (
+                      <div key={reply.id} className="mb-3 pl-3 border-l-2 border-gray-400 opacity-70">
                         <p className="text-xs font-medium mb-1">
-                          {message.replyTo.role === 'user' ? 'You' : 'AI'}
+                          {reply.role === 'user' ? 'You' : 'AI'}
                         </p>
                         <p className="text-xs line-clamp-2">
-                          {message.replyTo.content}
+                          {reply.content}
                         </p>
                       </div>
-                    )}
+                    ))}
                     {message.role === 'user' ? (
-                      <p className="text-base leading-relaxed whitespace-pre-wrap text-white select-text">
-                        {message.content}
-                      </p>
+                      <>
+                        {message.attachments && (
+                          <div className={message.content ? 'mb-3' : ''}>
+                            <AttachmentList attachments={message.attachments} inverted />
+                          </div>
+                        )}
+                        <p className="text-base leading-relaxed whitespace-pre-wrap text-white select-text">
+                          {message.content}
+                        </p>
+                      </>
                     ) : (
                       <div className="text-base leading-relaxed text-gray-700 prose prose-base max-w-none prose-headings:mt-6 prose-headings:mb-4 prose-p:my-4 prose-pre:my-4 prose-ul:my-3 prose-ol:my-3 prose-li:my-1 select-text">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          components={{
-                            code: (props) => (
-                              <CodeBlock
-                                {...props}
-                                copiedCodeBlock={copiedCodeBlock}
-                                setCopiedCodeBlock={setCopiedCodeBlock}
-                              />
-                            ),
-                          }}
-                        >
-                          {message.content}
-                        </ReactMarkdown>
+                        {message.reasoning && (
+                          <ReasoningBlock
+                            reasoning={message.reasoning}
+                            isStreaming={isLoading && !message.content && message.id === messages.at(-1)?.id}
+                          />
+                        )}
+                        {message.jsonValidation ? (
+                          <StructuredReply message={message} />
+                        ) : (
+                          <ReactMarkdown
+                            remarkPlugins={[remarkGfm]}
+                            components={{
+                              code: (props) => (
+                                <CodeBlock
+                                  {...props}
+                                  copiedCodeBlock={copiedCodeBlock}
+                                  setCopiedCodeBlock={setCopiedCodeBlock}
+                                />
+                              ),
+                            }}
+                          >
+                            {message.content}
+                          </ReactMarkdown>
+                        )}
+                        {message.toolCalls?.map((toolCall) => (
+                          <ToolCallCard
+                            key={toolCall.id || toolCall.name}
+                            toolCall={toolCall}
+                            result={toolResults.get(toolCall.id)}
+                            disabled={isLoading}
+                            onSubmitResult={onSubmitToolResult}
+                          />
+                        ))}
+                        <MessageStatus
+                          message={message}
+                          disabled={isLoading}
+                          onRetry={() => onRegenerate(message.id)}
+                          onContinue={() => onContinue(message.id)}
+                        />
+                        {message.usage && (
+                          <p className="not-prose mt-2 text-xs text-gray-400">
+                            {formatMessageUsage(message.usage)}
+                            {message.model && ` · ${message.model}`}
+                          </p>
+                        )}
                       </div>
                     )}
+                    <BranchNavigator
+                      siblings={getSiblings(conversation, message.id)}
+                      messageId={message.id}
+                      disabled={isLoading}
+                      onSelect={onSelectBranch}
+                      onCompare={() => onCompareBranches(message.id)}
+                    />
+                    <div className="absolute -top-2 -right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {message.role === 'assistant' && !isContextMessage && (
+                        <button
+                          onClick={() => onRegenerate(message.id)}
+                          disabled={isLoading}
+                          className="p-1.5 bg-gray-700 text-white rounded-full hover:bg-gray-800 disabled:opacity-50"
+                          aria-label="Regenerate response"
+                          title="Regenerate response"
+                        >
+                          <RefreshCw size={14} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onFork(message.id)}
+                        className="p-1.5 bg-gray-700 text-white rounded-full hover:bg-gray-800"
+                        aria-label="Fork from here"
+                        title="Fork from here"
+                      >
+                        <GitBranch size={14} />
+                      </button>
+                      <button
+                        onClick={() => onTogglePin(message.id)}
+                        className={`p-1.5 text-white rounded-full ${message.pinned ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-700 hover:bg-gray-800'}`}
+                        aria-label={message.pinned ? 'Unpin message' : 'Pin message'}
+                        title={message.pinned ? 'Unpin message' : 'Pin: never trimmed to fit the context window'}
+                      >
+                        {message.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                      </button>
+                    </div>
                   </div>
                 </div>
               )
             })}
+            {openComparison.length > 0 && (
+              <CompareResponses replies={openComparison} isLoading={isLoading} onKeep={onKeepComparison} />
+            )}
             <div ref={messagesEndRef} />
           </div>
         )}
       </div>
 
       {/* Input Area */}
-      <div className="nodrag p-4 sm:p-6 border-t border-gray-200 bg-white safe-area-inset-bottom">
-        {replyingTo && (
-          <div className="mb-3 p-2 bg-gray-50 rounded-lg border border-gray-200 flex items-start justify-between">
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-1">
-                <Reply size={14} className="text-purple-600 flex-shrink-0" />
-                <p className="text-xs font-medium text-purple-600">
-                  Replying to {replyingTo.role === 'user' ? 'yourself' : 'AI'}
-                </p>
-              </div>
-              <p className="text-xs text-gray-600 line-clamp-2">
-                {replyingTo.content}
-              </p>
-            </div>
-            <button
-              onClick={onCancelReply}
-              className="p-1 hover:bg-gray-200 rounded-md transition-colors ml-2 flex-shrink-0"
-              aria-label="Cancel reply"
-            >
-              <X size={14} className="text-gray-500" />
-            </button>
+      <div
+        className="nodrag p-4 sm:p-6 border-t border-gray-200 bg-white safe-area-inset-bottom"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+      >
+        <ReplyPreview replyingTo={replyingTo} onRemove={onRemoveReply} onClear={onCancelReply} />
+        {attachments.length > 0 && (
+          <div className="mb-3">
+            <AttachmentList attachments={attachments} onRemove={onRemoveAttachment} />
           </div>
         )}
+        {attachmentError && (
+          <p className="mb-2 text-xs text-red-600 whitespace-pre-line">{attachmentError}</p>
+        )}
         <form onSubmit={handleSubmit}>
           <div className="relative flex items-end gap-2">
+            <AttachmentButton disabled={isLoading} onFiles={onAddFiles} />
             <textarea
               value={input}
               onChange={(e) => onInputChange(e.target.value)}
               onKeyDown={onKeyDown}
+              onPaste={handlePaste}
               placeholder="Message..."
               disabled={isLoading}
               className="nodrag nowheel flex-1 resize-none rounded-xl border border-gray-300 px-3 sm:px-4 py-2.5 sm:py-3 pr-12 text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent min-h-[48px] sm:min-h-[52px] max-h-[200px] placeholder:text-gray-400 disabled:bg-gray-100 disabled:cursor-not-allowed"
               rows={1}
               onWheel={(e) => e.stopPropagation()}
             />
-            <button
-              type="submit"
-              disabled={!input.trim() || isLoading}
-              className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
-                input.trim() && !isLoading
-                  ? 'bg-purple-600 hover:bg-purple-700 text-white shadow-md hover:shadow-lg'
-                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-              }`}
-            >
-              <ArrowUp size={20} strokeWidth={2.5} />
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="absolute right-2 bottom-2 p-2 rounded-lg transition-all bg-gray-800 hover:bg-gray-900 text-white shadow-md"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square size={20} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!canSend}
+                className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
+                  canSend
+                    ? 'bg-purple-600 hover:bg-purple-700 text-white shadow-md hover:shadow-lg'
+                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                }`}
+              >
+                <ArrowUp size={20} strokeWidth={2.5} />
+              </button>
+            )}
           </div>
         </form>
 
+        <ContextGauge estimate={contextEstimate} strategy={contextStrategy} onStrategyChange={onContextStrategyChange} />
+
         {/* Action Buttons: Undo, Redo */}
         <div className="flex items-center justify-end gap-2 mt-3 pt-3 border-t border-gray-200">
           <button
@@ -357,7 +599,7 @@ export default function ChatExpand({
           </button>
           <button
             onClick={onRedo}
-            disabled={deletedMessages.length === 0}
+            disabled={!canRedo}
             className="p-2.5 sm:p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
             aria-label="Redo"
             title="Redo message"
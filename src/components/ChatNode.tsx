@@ -1,41 +1,137 @@
-import { useState, useEffect, useRef, useContext } from 'react'
+import { useState, useEffect, useRef, useContext, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { Handle, Position, useReactFlow, NodeResizer, useEdges, useNodes } from '@xyflow/react'
-import { ArrowUp, X, Settings, ChevronDown, ChevronUp, Undo2, Redo2, Pencil, Check, Copy, Check as CheckCopy, Reply, Download, MoreHorizontal, Circle, Maximize2 } from 'lucide-react'
+import { ArrowUp, X, Settings, ChevronDown, ChevronUp, Undo2, Redo2, Pencil, Check, Copy, Check as CheckCopy, Reply, Download, MoreHorizontal, Circle, Maximize2, GitBranch, RefreshCw, Square, Pin, PinOff } from 'lucide-react'
 import { sendChatMessage, summarizeConversation } from '../functions/chat'
+import type { ContextEvent, Message, MessageUsage, ToolCall, ToolChoice, ToolDefinition } from '../lib/chatTypes'
+import { AttachmentError, readAttachment, type Attachment } from '../lib/attachments'
+import {
+  DEFAULT_RESPONSE_FORMAT,
+  MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  toPayloadResponseFormat,
+  validateStructuredReply,
+  type ResponseFormatSettings,
+} from '../lib/responseFormat'
+import {
+  addComparisonReply,
+  appendMessages,
+  canStepForward,
+  createConversationTree,
+  getActivePath,
+  getOpenComparison,
+  getSiblings,
+  keepComparisonReply,
+  patchMessage,
+  removeMessage,
+  selectBranch,
+  stepBack,
+  stepForward,
+  type ConversationTree,
+} from '../lib/conversationTree'
+import { consumeChatStream, isRetryableStatus, toStreamedFields, type ChatStreamState } from '../lib/chatStream'
+import { toPayloadMessages, toPayloadToolChoice, toPayloadTools } from '../lib/chatPayload'
+import {
+  formatEdgeLabel,
+  formatTranscript,
+  getEdgeContextSettings,
+  isSummaryContent,
+  serializeChatContext,
+  withPlacedContexts,
+  type ContextMode,
+  type PlacedContext,
+} from '../lib/edgeContext'
+import { getToolHandler } from '../lib/toolHandlers'
+import { DEFAULT_TEMPERATURE, toPayloadSampling, type SamplingParams } from '../lib/sampling'
+import { acceptsImages, getModelLabel, resolveModelId, supportsParameter, useModelCatalog, type ModelInfo } from '../lib/modelCatalog'
+import { DEFAULT_PROVIDER, getDefaultModel, type ProviderId } from '../lib/providers'
+import { getApiKey } from '../lib/apiKeys'
+import {
+  DEFAULT_CONTEXT_STRATEGY,
+  DEFAULT_REPLY_RESERVE,
+  createHistorySummaryMessage,
+  estimateContext,
+  fitHistory,
+  getHistoryBudget,
+  isOverLimit,
+  type ContextStrategy,
+} from '../lib/contextBudget'
+import { EMPTY_USAGE, addUsage, combineMessageUsage, estimateNextCost, formatCost, formatMessageUsage, formatTokens, formatUsage, getChatNodeUsage, getWorkbenchUsage, type UsageTotals } from '../lib/usage'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
-import { LogContext } from '../routes/index'
+import { BudgetContext, ForkContext, LogContext } from './Workbench'
+import { getForkHistory, isForkEdge } from '../lib/fork'
 import ChatExpand from './ChatExpand'
+import ToolCallCard from './ToolCallCard'
+import ReplyPreview from './ReplyPreview'
+import AttachmentList from './AttachmentList'
+import AttachmentButton from './AttachmentButton'
+import ReasoningBlock from './ReasoningBlock'
+import MessageStatus from './MessageStatus'
+import BranchNavigator from './BranchNavigator'
+import BranchCompare from './BranchCompare'
+import ToolsEditor from './ToolsEditor'
+import ModelPicker from './ModelPicker'
+import ProviderPicker from './ProviderPicker'
+import SamplingSettings from './SamplingSettings'
+import SystemPromptEditor from './SystemPromptEditor'
+import CompareModelsEditor from './CompareModelsEditor'
+import FallbackModelsEditor from './FallbackModelsEditor'
+import ResponseFormatEditor from './ResponseFormatEditor'
+import StructuredReply from './StructuredReply'
+import CompareResponses from './CompareResponses'
+import ContextDiff from './ContextDiff'
+import ContextGauge from './ContextGauge'
+
+
+type OutputFormat = 'transcript' | 'summary' | 'keypoints'
 
 interface ChatNodeProps {
   id: string
   data: {
     label?: string
+    // Persisted conversation tree (every branch) and settings, restored when the canvas loads
+    conversation?: Message[]
+    activeLeafId?: string | null
+    // Where requests go, and the model id within that provider (older
+    // workbenches saved 'ChatGPT' / 'Claude' / 'Gemini' for OpenRouter)
+    provider?: ProviderId
+    model?: string
+    temperature?: number
+    sampling?: SamplingParams
+    systemPrompt?: string
+    outputFormat?: OutputFormat
+    autoApply?: boolean
+    tools?: ToolDefinition[]
+    toolChoice?: ToolChoice
+    // Plain text, JSON mode or JSON Schema constrained replies
+    responseFormat?: ResponseFormatSettings
+    // How connected inputs reach the model, and the context block last sent in live mode
+    contextMode?: ContextMode
+    lastSentContexts?: PlacedContext[]
+    // What to do when the history outgrows the model's context window
+    contextStrategy?: ContextStrategy
+    // Extra models answering each message side by side when compare mode is on
+    compareMode?: boolean
+    compareModels?: string[]
+    // Tried in order by OpenRouter when the node's model is unavailable
+    fallbackModels?: string[]
+    // Applied output read by connected child nodes
+    messages?: Message[]
+    // Tokens and cost spent generating summaries / key points
+    summaryUsage?: UsageTotals
   }
   selected?: boolean
 }
 
-type AIModel = 'ChatGPT' | 'Claude' | 'Gemini'
+// Automatic tool round trips allowed before waiting on the user
+const MAX_TOOL_ROUNDS = 5
 
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  replyTo?: {
-    id: string
-    content: string
-    role: 'user' | 'assistant'
-  }
-}
-
-const MODEL_MAP = {
-  ChatGPT: 'openai/gpt-5.2-chat',  // Latest GPT-4o model
-  Claude: 'anthropic/claude-haiku-4.5',  // Latest Claude 3.5 Sonnet
-  Gemini: 'google/gemini-3-flash-preview',  // Latest Gemini 2.0 Flash
-}
+// Retries for requests that fail before streaming anything; delay doubles each time
+const MAX_STREAM_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 1000
 
 interface CodeBlockProps {
   inline?: boolean
@@ -133,50 +229,151 @@ function CodeBlock({ inline, className, children, copiedCodeBlock, setCopiedCode
 }
 
 export default function ChatNode({ id, data, selected }: ChatNodeProps) {
-  const [selectedModel, setSelectedModel] = useState<AIModel>('Claude')
-  const [messages, setMessages] = useState<Message[]>([])
-  const [deletedMessages, setDeletedMessages] = useState<Message[]>([])
+  const [provider, setProvider] = useState<ProviderId>(data.provider || DEFAULT_PROVIDER)
+  const [selectedModel, setSelectedModel] = useState<string>(
+    (data.provider || DEFAULT_PROVIDER) === 'openrouter' ? resolveModelId(data.model) : data.model || ''
+  )
+  const [conversation, setConversation] = useState<ConversationTree>(() =>
+    createConversationTree(data.conversation, data.activeLeafId)
+  )
+  // The branch currently shown and sent to the model
+  const messages = useMemo(() => getActivePath(conversation), [conversation])
+  // Nothing continues the conversation until one compared reply is kept
+  const openComparison = useMemo(() => getOpenComparison(conversation), [conversation])
+  const isComparisonOpen = openComparison.length > 0
+  const [comparingMessageId, setComparingMessageId] = useState<string | null>(null)
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [temperature, setTemperature] = useState(0.7)
+  const [temperature, setTemperature] = useState(data.temperature ?? DEFAULT_TEMPERATURE)
+  const [sampling, setSampling] = useState<SamplingParams>(data.sampling || {})
+  const [systemPrompt, setSystemPrompt] = useState(data.systemPrompt || '')
   const [isSettingsExpanded, setIsSettingsExpanded] = useState(false)
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [editingContent, setEditingContent] = useState('')
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null)
   const [copiedCodeBlock, setCopiedCodeBlock] = useState<string | null>(null)
-  const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+  const [replyingTo, setReplyingTo] = useState<Message[]>([])
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
   const [connectedContexts, setConnectedContexts] = useState<Map<string, string>>(new Map())
   const [isContextExpanded, setIsContextExpanded] = useState(false)
   const [isExpandOpen, setIsExpandOpen] = useState(false)
-  const [appliedMessages, setAppliedMessages] = useState<Message[]>([])
+  const [appliedMessages, setAppliedMessages] = useState<Message[]>(() => {
+    // A restored transcript output is exactly what was applied; summaries can't be compared
+    if (!data.messages) return []
+    return (data.outputFormat || 'transcript') === 'transcript' ? data.messages : getActivePath(conversation)
+  })
   const [hasChildConnections, setHasChildConnections] = useState(false)
-  const [autoApply, setAutoApply] = useState(false)
-  const [outputFormat, setOutputFormat] = useState<'transcript' | 'summary' | 'keypoints'>('transcript')
+  const [autoApply, setAutoApply] = useState(data.autoApply ?? false)
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(data.outputFormat || 'transcript')
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false)
+  const [tools, setTools] = useState<ToolDefinition[]>(data.tools || [])
+  const [toolChoice, setToolChoice] = useState<ToolChoice>(data.toolChoice || 'auto')
+  const [isCompareMode, setIsCompareMode] = useState(data.compareMode ?? false)
+  const [compareModels, setCompareModels] = useState<string[]>(data.compareModels || [])
+  const [fallbackModels, setFallbackModels] = useState<string[]>(data.fallbackModels || [])
+  const [responseFormat, setResponseFormat] = useState<ResponseFormatSettings>(data.responseFormat || DEFAULT_RESPONSE_FORMAT)
   const connectedContextsRef = useRef<Map<string, string>>(new Map())
+  const notedContextsRef = useRef<Map<string, string>>(new Map())
+  // Inputs placed in the system prompt or a leading user message, added at send time
+  const [placedContexts, setPlacedContexts] = useState<PlacedContext[]>([])
+  const [contextMode, setContextMode] = useState<ContextMode>(data.contextMode || 'inject')
+  // Context block sent with the latest live-mode request, for the diff view
+  const [lastSentContexts, setLastSentContexts] = useState<PlacedContext[]>(data.lastSentContexts || [])
+  const [isContextDiffOpen, setIsContextDiffOpen] = useState(false)
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy>(data.contextStrategy || DEFAULT_CONTEXT_STRATEGY)
+  // Summaries standing in for trimmed turns, keyed by the trimmed transcript
+  const historySummariesRef = useRef<Map<string, string>>(new Map())
+  // Per-edge summaries keyed by mode and source transcript
+  const edgeSummariesRef = useRef<Map<string, string>>(new Map())
+  const pendingEdgeSummariesRef = useRef<Set<string>>(new Set())
+  const [edgeSummaryVersion, setEdgeSummaryVersion] = useState(0)
+  const hasSeededContextsRef = useRef(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Shared by every stream of the current send, so one stop cancels them all
+  const abortControllerRef = useRef<AbortController | null>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const { setNodes } = useReactFlow()
   const edges = useEdges()
   const nodes = useNodes()
   const { addLog } = useContext(LogContext)
+  const { budget } = useContext(BudgetContext)
+  const { forkChatNode } = useContext(ForkContext)
+  const modelCatalog = useModelCatalog(provider)
+  const modelInfo = modelCatalog.models.find((model) => model.id === selectedModel)
+  const supportsTemperature = supportsParameter(modelInfo, 'temperature')
+  const supportsTools = supportsParameter(modelInfo, 'tools')
+  const replyReserve = sampling.maxTokens ?? DEFAULT_REPLY_RESERVE
+  // Size of the next request, including the message being typed
+  const contextEstimate = useMemo(() => {
+    const draft: Message = { id: 'draft', role: 'user', content: input, attachments }
+    return estimateContext({
+      systemPrompt,
+      contexts: placedContexts,
+      history: input.trim() || attachments.length > 0 ? [...messages, draft] : messages,
+      contextLength: modelInfo?.contextLength ?? null,
+      replyReserve,
+    })
+  }, [systemPrompt, placedContexts, messages, input, attachments, modelInfo, replyReserve])
+
+  // Local servers have no fixed default; select the first model they list once it loads
+  useEffect(() => {
+    if (!selectedModel && modelCatalog.models.length > 0) {
+      setSelectedModel(modelCatalog.models[0].id)
+    }
+  }, [selectedModel, modelCatalog.models])
+
+  // Model ids differ between providers, so switching starts from the provider's default
+  const handleProviderChange = (next: ProviderId) => {
+    if (next === provider) return
+    addLog('Provider Changed', `Chat Node ${id}: ${provider} → ${next}`)
+    setProvider(next)
+    setSelectedModel(getDefaultModel(next) || '')
+    setCompareModels([])
+    setFallbackModels([])
+  }
 
   const handleClose = () => {
     setNodes((nodes) => nodes.filter((node) => node.id !== id))
   }
 
+  // Undo and redo move along the active branch; nothing is deleted
   const handleUndo = () => {
-    if (messages.length === 0) return
-    const lastMessage = messages[messages.length - 1]
-    setMessages((prev) => prev.slice(0, -1))
-    setDeletedMessages((prev) => [...prev, lastMessage])
+    if (messages.length === 0 || isLoading) return
+    setConversation(stepBack)
   }
 
   const handleRedo = () => {
-    if (deletedMessages.length === 0) return
-    const lastDeleted = deletedMessages[deletedMessages.length - 1]
-    setDeletedMessages((prev) => prev.slice(0, -1))
-    setMessages((prev) => [...prev, lastDeleted])
+    if (isLoading) return
+    setConversation(stepForward)
+  }
+
+  // New node with the history up to this message and the same model and settings
+  const handleFork = (messageId: string) => {
+    forkChatNode(id, {
+      label: `${data.label || 'Chat'} (fork)`,
+      conversation: getForkHistory(messages, messageId),
+      provider,
+      model: selectedModel,
+      temperature,
+      sampling,
+      systemPrompt,
+      tools,
+      toolChoice,
+      compareMode: isCompareMode,
+      compareModels,
+      fallbackModels,
+      responseFormat,
+      contextMode,
+      contextStrategy,
+    })
+  }
+
+  const handleSelectBranch = (messageId: string) => {
+    if (isLoading) return
+    setConversation((prev) => selectBranch(prev, messageId))
+    setComparingMessageId(null)
+    addLog('Branch Selected', `Chat Node ${id}: switched to branch at message ${messageId}`)
   }
 
   const handleEditMessage = (messageId: string, content: string) => {
@@ -199,98 +396,89 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     }
   }
 
+  // Replying again to a quoted message removes it; any other message is added to the quotes
   const handleReplyTo = (message: Message) => {
-    setReplyingTo(message)
+    setReplyingTo((prev) =>
+      prev.some((m) => m.id === message.id) ? prev.filter((m) => m.id !== message.id) : [...prev, message]
+    )
+  }
+
+  const handleRemoveReply = (messageId: string) => {
+    setReplyingTo((prev) => prev.filter((m) => m.id !== messageId))
   }
 
   const handleCancelReply = () => {
-    setReplyingTo(null)
+    setReplyingTo([])
+  }
+
+  const handleResetSampling = () => {
+    setTemperature(DEFAULT_TEMPERATURE)
+    setSampling({})
+  }
+
+  // Ask before a send whose expected cost would take the workbench past its budget
+  const confirmWithinBudget = () => {
+    if (budget === undefined) return true
+
+    const spent = getWorkbenchUsage(nodes).cost
+    const projected = spent + estimateNextCost(messages)
+    if (projected < budget && spent < budget) return true
+
+    const proceed = window.confirm(
+      `This workbench has spent ${formatCost(spent)} of its ${formatCost(budget)} budget` +
+        ` and this message is expected to cost about ${formatCost(projected - spent)}. Send anyway?`
+    )
+    addLog('Budget', `Chat Node ${id}: send over budget ${proceed ? 'confirmed' : 'cancelled'}`)
+    return proceed
+  }
+
+  // Ask before sending a request that will not fit the model's context window,
+  // either because trimming is off or because pinned messages leave no room
+  const confirmWithinContextWindow = () => {
+    if (!isOverLimit(contextEstimate)) return true
+    const limit = contextEstimate.limit!
+    if (contextStrategy !== 'warn') {
+      const available = getHistoryBudget(contextEstimate, contextStrategy)!
+      if (fitHistory([...messages, { id: 'draft', role: 'user', content: input, attachments }], available).fits) return true
+    }
+
+    const proceed = window.confirm(
+      `This request is about ${formatTokens(contextEstimate.total)} tokens but ${getModelLabel(selectedModel, modelCatalog.models)}` +
+        ` has room for ${formatTokens(limit)} after reserving ${formatTokens(replyReserve)} for the reply` +
+        `${contextStrategy === 'warn' ? '' : ', even after trimming older turns'}. Send anyway?`
+    )
+    addLog('Context Window', `Chat Node ${id}: send over the context window ${proceed ? 'confirmed' : 'cancelled'}`)
+    return proceed
+  }
+
+  const handleTogglePin = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId)
+    if (!message) return
+    setConversation((prev) => patchMessage(prev, messageId, { pinned: message.pinned ? undefined : true }))
   }
 
   const handleSaveEdit = async () => {
     if (!editingContent.trim() || !editingMessageId || isLoading) return
+    if (!confirmWithinBudget()) return
 
     // Find the index of the message being edited
     const messageIndex = messages.findIndex((m) => m.id === editingMessageId)
     if (messageIndex === -1) return
 
-    // Update the message content
-    const updatedMessages = messages.slice(0, messageIndex + 1)
-    updatedMessages[messageIndex] = {
-      ...updatedMessages[messageIndex],
+    // The edit becomes a sibling branch; the original and its replies stay in the tree
+    const original = messages[messageIndex]
+    const editedMessage: Message = {
+      ...original,
+      id: Date.now().toString(),
       content: editingContent.trim(),
     }
+    const updatedMessages = [...messages.slice(0, messageIndex), editedMessage]
 
-    // Remove all messages after the edited one (since context changes)
-    setMessages(updatedMessages)
+    setConversation((prev) => appendMessages(prev, [editedMessage], original.parentId ?? null))
     setEditingMessageId(null)
     setEditingContent('')
-    setDeletedMessages([]) // Clear redo history
-    setIsLoading(true)
-
-    // Create assistant message placeholder
-    const assistantMessageId = (Date.now() + 1).toString()
-    setMessages((prev) => [
-      ...prev,
-      { id: assistantMessageId, role: 'assistant', content: '' },
-    ])
 
-    try {
-      // Build conversation history with the edited message
-      const conversationHistory = updatedMessages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      }))
-
-      // Call the server function
-      const response = await sendChatMessage({
-        data: {
-          role: 'user',
-          message: editingContent.trim(),
-          model: MODEL_MAP[selectedModel],
-          messages: conversationHistory,
-          temperature: temperature,
-        },
-      })
-
-      // Read the stream
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
-
-      if (!reader) {
-        throw new Error('No reader available')
-      }
-
-      let accumulatedContent = ''
-
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) {
-          addLog('Message Received', `Chat Node ${id}: AI response completed (${accumulatedContent.length} chars)`)
-          break
-        }
-
-        const chunk = decoder.decode(value, { stream: true })
-        accumulatedContent += chunk
-
-        // Update the assistant message with accumulated content
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === assistantMessageId
-              ? { ...msg, content: accumulatedContent }
-              : msg
-          )
-        )
-      }
-    } catch (error) {
-      console.error('Error sending message:', error)
-      addLog('Error', `Chat Node ${id}: Failed to send message - ${error}`)
-      // Remove the placeholder message on error
-      setMessages((prev) => prev.filter((msg) => msg.id !== assistantMessageId))
-    } finally {
-      setIsLoading(false)
-    }
+    await streamAssistantResponse(updatedMessages)
   }
 
   // Auto-scroll to bottom when messages change
@@ -298,9 +486,47 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // Persist the conversation and settings into node data so the workbench can be saved.
+  // Skipped while streaming to avoid writing the canvas on every chunk.
+  useEffect(() => {
+    if (isLoading) return
+
+    const persisted: Record<string, unknown> = {
+      conversation: conversation.messages,
+      activeLeafId: conversation.activeLeafId,
+      provider,
+      model: selectedModel,
+      temperature,
+      sampling,
+      systemPrompt,
+      outputFormat,
+      autoApply,
+      tools,
+      toolChoice,
+      compareMode: isCompareMode,
+      compareModels,
+      fallbackModels,
+      responseFormat,
+      contextMode,
+      lastSentContexts,
+      contextStrategy,
+    }
+
+    setNodes((nodes) => {
+      const node = nodes.find((n) => n.id === id)
+      if (!node || Object.entries(persisted).every(([key, value]) => node.data[key] === value)) {
+        return nodes
+      }
+
+      return nodes.map((n) =>
+        n.id === id ? { ...n, data: { ...n.data, ...persisted } } : n
+      )
+    })
+  }, [conversation, provider, selectedModel, temperature, sampling, systemPrompt, outputFormat, autoApply, tools, toolChoice, isCompareMode, compareModels, fallbackModels, responseFormat, contextMode, lastSentContexts, contextStrategy, isLoading, id, setNodes])
+
   // Check for child connections (nodes connected to this chat's output)
   useEffect(() => {
-    const childEdges = edges.filter((edge) => edge.source === id)
+    const childEdges = edges.filter((edge) => edge.source === id && !isForkEdge(edge))
     setHasChildConnections(childEdges.length > 0)
     console.log(`[Chat ${id}] Has ${childEdges.length} child connections`)
   }, [edges, id])
@@ -310,6 +536,7 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     console.log(`[Chat ${id}] APPLYING ${messages.length} messages to node data (format: ${outputFormat})`)
 
     let formattedOutput = messages
+    let summaryUsage = data.summaryUsage || EMPTY_USAGE
 
     // Generate summary or key points if needed
     if (outputFormat !== 'transcript' && messages.length > 0) {
@@ -317,8 +544,13 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
       try {
         const result = await summarizeConversation({
           data: {
-            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            messages: messages
+              .filter((m) => m.role !== 'tool')
+              .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
             type: outputFormat === 'summary' ? 'summary' : 'keypoints',
+            provider,
+            model: selectedModel,
+            api_key: await getApiKey(provider),
           },
         })
 
@@ -329,7 +561,9 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           id: `${outputFormat}-${Date.now()}`,
           role: 'assistant' as const,
           content: result.summary,
+          usage: result.usage,
         }]
+        summaryUsage = addUsage(summaryUsage, result.usage)
       } catch (error) {
         console.error(`[Chat ${id}] Error generating ${outputFormat}:`, error)
         // Fall back to transcript on error
@@ -342,7 +576,7 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     setNodes((nodes) =>
       nodes.map((node) =>
         node.id === id
-          ? { ...node, data: { ...node.data, messages: formattedOutput, outputFormat: outputFormat } }
+          ? { ...node, data: { ...node.data, messages: formattedOutput, outputFormat: outputFormat, summaryUsage } }
           : node
       )
     )
@@ -365,15 +599,64 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     }
   }, [isLoading]) // Only trigger when isLoading changes
 
+  // Summaries generated for inputs and trimmed history count towards the node's spending
+  const recordSummaryUsage = (usage: MessageUsage | undefined) => {
+    setNodes((nodes) =>
+      nodes.map((node) =>
+        node.id === id
+          ? {
+              ...node,
+              data: {
+                ...node.data,
+                summaryUsage: addUsage((node.data.summaryUsage as UsageTotals | undefined) || EMPTY_USAGE, usage),
+              },
+            }
+          : node
+      )
+    )
+  }
+
+  // Generate a summary or key points for an edge that asks for one; the effect
+  // below re-runs when it arrives. Failures fall back to the full transcript.
+  const requestEdgeSummary = async (key: string, sourceMessages: Message[], type: 'summary' | 'keypoints') => {
+    if (pendingEdgeSummariesRef.current.has(key)) return
+    pendingEdgeSummariesRef.current.add(key)
+    console.log(`[Chat ${id}] Generating ${type} for an input edge`)
+    try {
+      const result = await summarizeConversation({
+        data: {
+          messages: sourceMessages
+            .filter((m) => m.role !== 'tool')
+            .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+          type,
+          provider,
+          model: selectedModel,
+          api_key: await getApiKey(provider),
+        },
+      })
+      edgeSummariesRef.current.set(key, result.summary)
+      recordSummaryUsage(result.usage)
+    } catch (error) {
+      console.error(`[Chat ${id}] Error generating ${type} for an input edge:`, error)
+      edgeSummariesRef.current.set(key, formatTranscript(sourceMessages))
+    } finally {
+      pendingEdgeSummariesRef.current.delete(key)
+      setEdgeSummaryVersion((version) => version + 1)
+    }
+  }
+
   // Monitor context and chat node connections
   useEffect(() => {
     console.log(`[Chat ${id}] Monitoring effect triggered`)
     const inputEdges = edges.filter(
-      (edge) => edge.target === id && edge.source.startsWith('node-')
+      (edge) => edge.target === id && edge.source.startsWith('node-') && !isForkEdge(edge)
     )
     console.log(`[Chat ${id}] Found ${inputEdges.length} input edges`)
 
     const newContexts = new Map<string, string>()
+    // Inputs delivered as assistant notes in the conversation; the rest are sent with each request
+    const newNotes = new Map<string, string>()
+    const newPlacedContexts: PlacedContext[] = []
 
     inputEdges.forEach((edge) => {
       const sourceNode = nodes.find(node => node.id === edge.source)
@@ -384,26 +667,94 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           const contextText = (sourceNode.data as any).text || ''
           console.log(`[Chat ${id}] Context node text length:`, contextText.length)
           newContexts.set(edge.source, contextText)
+          if (contextMode === 'live') {
+            newPlacedContexts.push({ sourceId: edge.source, label: (sourceNode.data as any).label || 'Context', text: contextText, placement: 'system' })
+          } else {
+            newNotes.set(edge.source, contextText)
+          }
         } else if (sourceNode.type === 'chatNode') {
-          // Handle chat nodes - format messages as conversation history
-          const sourceMessages = (sourceNode.data as any).messages || []
-          console.log(`[Chat ${id}] Chat node has ${sourceMessages.length} messages`)
-          console.log(`[Chat ${id}] Source messages:`, sourceMessages)
-          const formattedConversation = sourceMessages
-            .map((msg: Message) => {
-              const role = msg.role === 'user' ? 'User' : 'Assistant'
-              return `**${role}:** ${msg.content}`
-            })
-            .join('\n\n')
-          console.log(`[Chat ${id}] Formatted conversation length:`, formattedConversation.length)
-          newContexts.set(edge.source, formattedConversation)
+          // Handle chat nodes - serialize messages the way the edge asks for
+          const sourceMessages: Message[] = (sourceNode.data as any).messages || []
+          const settings = getEdgeContextSettings(edge)
+          console.log(`[Chat ${id}] Chat node has ${sourceMessages.length} messages (edge: ${formatEdgeLabel(settings)})`)
+
+          let contextText: string | undefined
+          if (isSummaryContent(settings.content) && sourceMessages.length > 0) {
+            const key = `${settings.content}\n${formatTranscript(sourceMessages)}`
+            contextText = edgeSummariesRef.current.get(key)
+            if (contextText === undefined) {
+              requestEdgeSummary(key, sourceMessages, settings.content)
+              // Keep what was delivered before until the new summary is ready
+              contextText = connectedContextsRef.current.get(edge.source)
+            }
+          } else {
+            contextText = serializeChatContext(sourceMessages, settings)
+          }
+          if (contextText === undefined) return
+          console.log(`[Chat ${id}] Serialized conversation length:`, contextText.length)
+
+          newContexts.set(edge.source, contextText)
+          if (settings.placement === 'assistant' && contextMode !== 'live') {
+            newNotes.set(edge.source, contextText)
+          } else if (contextText) {
+            // Live mode has no notes; note-placed inputs join the system context block
+            const label = (sourceNode.data as any).label || 'Chat'
+            const placement = settings.placement === 'assistant' ? 'system' : settings.placement
+            newPlacedContexts.push({ sourceId: edge.source, label, text: contextText, placement })
+          }
         }
       }
     })
 
+    setPlacedContexts(newPlacedContexts)
+
+    // The first pass only records the connections a restored node already had;
+    // their messages are part of the saved conversation
+    if (!hasSeededContextsRef.current) {
+      hasSeededContextsRef.current = true
+      connectedContextsRef.current = newContexts
+      notedContextsRef.current = newNotes
+      setConnectedContexts(newContexts)
+      return
+    }
+
+    // Live mode only marks what changed; the text itself is resolved at send time
+    if (contextMode === 'live') {
+      const markers: Message[] = []
+      const addMarker = (contextId: string, event: ContextEvent) => {
+        const sourceNode = nodes.find(node => node.id === contextId)
+        const nodeType = sourceNode?.type === 'chatNode' ? 'Chat' : 'Context'
+        const contextLabel = (sourceNode?.data as any)?.label || nodeType
+        console.log(`[Chat ${id}] Context ${event}: ${contextId}`)
+        markers.push({
+          id: `context-${event}-${contextId}-${Date.now()}`,
+          role: 'assistant',
+          content: `📎 ${nodeType} ${event}: ${contextLabel}`,
+          contextEvent: event,
+        })
+      }
+      newContexts.forEach((text, contextId) => {
+        const oldText = connectedContextsRef.current.get(contextId)
+        if (oldText === undefined) addMarker(contextId, 'connected')
+        else if (oldText !== text) addMarker(contextId, 'updated')
+      })
+      connectedContextsRef.current.forEach((_, contextId) => {
+        if (!newContexts.has(contextId)) addMarker(contextId, 'disconnected')
+      })
+
+      if (markers.length > 0) {
+        setConversation((prev) => {
+          // Successive edits of one input collapse into a single marker
+          const leaf = prev.messages.find((m) => m.id === prev.activeLeafId)
+          const fresh = markers.filter((marker) => !(leaf?.contextEvent && leaf.content === marker.content))
+          return appendMessages(prev, fresh)
+        })
+      }
+    }
+
     // Detect changes and inject context messages
-    const oldContextIds = new Set(connectedContextsRef.current.keys())
-    const newContextIds = new Set(newContexts.keys())
+    const oldContextIds = new Set(notedContextsRef.current.keys())
+    const newContextIds = new Set(newNotes.keys())
     console.log(`[Chat ${id}] Old contexts:`, Array.from(oldContextIds))
     console.log(`[Chat ${id}] New contexts:`, Array.from(newContextIds))
 
@@ -411,7 +762,7 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
     newContextIds.forEach((contextId) => {
       if (!oldContextIds.has(contextId)) {
         console.log(`[Chat ${id}] NEW CONTEXT DETECTED:`, contextId)
-        const contextText = newContexts.get(contextId) || ''
+        const contextText = newNotes.get(contextId) || ''
         const sourceNode = nodes.find(node => node.id === contextId)
         const nodeType = sourceNode?.type === 'chatNode' ? 'Chat' : 'Context'
         const contextLabel = (sourceNode?.data as any)?.label || nodeType
@@ -425,17 +776,18 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           role: 'assistant',
           content: `📎 **${nodeType} Connected: ${contextLabel}**\n\n${contextText}`,
         }
-        setMessages((prev) => [...prev, contextMessage])
+        setConversation((prev) => appendMessages(prev, [contextMessage]))
       }
     })
 
     // Contexts removed
     oldContextIds.forEach((contextId) => {
-      if (!newContextIds.has(contextId)) {
+      // An input moved to the system prompt or a user message is still connected
+      if (!newContextIds.has(contextId) && !newContexts.has(contextId)) {
         const sourceNode = nodes.find(node => node.id === contextId)
         const nodeType = sourceNode?.type === 'chatNode' ? 'Chat' : 'Context'
         const contextLabel = (sourceNode?.data as any)?.label || nodeType
-        const oldContextText = connectedContextsRef.current.get(contextId) || ''
+        const oldContextText = notedContextsRef.current.get(contextId) || ''
 
         // Inject context removed message with full context text
         const removalMessage: Message = {
@@ -443,15 +795,15 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           role: 'assistant',
           content: `📎 **${nodeType} Disconnected: ${contextLabel}**\n\nThe following information has been removed and should no longer be considered in future responses:\n\n---\n\n${oldContextText}\n\n---\n\n*Please disregard this information going forward.*`,
         }
-        setMessages((prev) => [...prev, removalMessage])
+        setConversation((prev) => appendMessages(prev, [removalMessage]))
       }
     })
 
     // Contexts updated (text/messages changed)
     newContextIds.forEach((contextId) => {
       if (oldContextIds.has(contextId)) {
-        const oldText = connectedContextsRef.current.get(contextId) || ''
-        const newText = newContexts.get(contextId) || ''
+        const oldText = notedContextsRef.current.get(contextId) || ''
+        const newText = newNotes.get(contextId) || ''
 
         if (oldText !== newText && newText) {
           const sourceNode = nodes.find(node => node.id === contextId)
@@ -464,108 +816,466 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
             role: 'assistant',
             content: `📎 **${nodeType} Updated: ${contextLabel}**\n\n**Previous version (disregard this):**\n\n---\n\n${oldText}\n\n---\n\n**New version (use this going forward):**\n\n---\n\n${newText}\n\n---\n\n*Please disregard the previous version and only use the new information above in all future responses.*`,
           }
-          setMessages((prev) => [...prev, updateMessage])
+          setConversation((prev) => appendMessages(prev, [updateMessage]))
         }
       }
     })
 
     // Update both state and ref
     connectedContextsRef.current = newContexts
+    notedContextsRef.current = newNotes
     setConnectedContexts(newContexts)
-  }, [edges, nodes, id])
+  }, [edges, nodes, id, edgeSummaryVersion, contextMode])
+
+  // Read dropped, pasted or picked files; unsupported or oversized ones are reported and skipped
+  const handleAddFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    const errors: string[] = []
+    const added: Attachment[] = []
+    for (const file of files) {
+      try {
+        added.push(await readAttachment(file))
+      } catch (error) {
+        errors.push(error instanceof AttachmentError ? error.message : `${file.name}: could not be read`)
+      }
+    }
+    setAttachments((prev) => [...prev, ...added])
+    setAttachmentError(errors.length > 0 ? errors.join('\n') : null)
+    if (added.length > 0) {
+      addLog('Attachment Added', `Chat Node ${id}: ${added.map((attachment) => attachment.name).join(', ')}`)
+    }
+  }
+
+  const handleRemoveAttachment = (attachmentId: string) => {
+    setAttachments((prev) => prev.filter((attachment) => attachment.id !== attachmentId))
+  }
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return
+    if ((!input.trim() && attachments.length === 0) || isLoading || isComparisonOpen) return
+    if (!confirmWithinBudget()) return
+    if (!confirmWithinContextWindow()) return
 
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       content: input.trim(),
-      replyTo: replyingTo ? {
-        id: replyingTo.id,
-        content: replyingTo.content,
-        role: replyingTo.role,
-      } : undefined,
+      replyTo: replyingTo.length > 0
+        ? replyingTo.map((m) => ({ id: m.id, content: m.content, role: m.role === 'user' ? 'user' : 'assistant' }))
+        : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
     }
 
-    addLog('Message Sent', `Chat Node ${id}: "${input.trim().substring(0, 50)}${input.trim().length > 50 ? '...' : ''}"`)
+    addLog('Message Sent', `Chat Node ${id}: "${input.trim().substring(0, 50)}${input.trim().length > 50 ? '...' : ''}"${attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : ''}`)
 
-    setMessages((prev) => [...prev, userMessage])
-    setDeletedMessages([]) // Clear redo history when new message is sent
-    setReplyingTo(null) // Clear reply reference
+    setConversation((prev) => appendMessages(prev, [userMessage], messages.at(-1)?.id ?? null))
+    setReplyingTo([]) // Clear reply references
     setInput('')
-    setIsLoading(true)
+    setAttachments([])
+    setAttachmentError(null)
 
-    // Create assistant message placeholder
-    const assistantMessageId = (Date.now() + 1).toString()
-    setMessages((prev) => [
-      ...prev,
-      { id: assistantMessageId, role: 'assistant', content: '' },
-    ])
+    if (isCompareMode && compareModels.length > 0) {
+      await streamComparison([...messages, userMessage])
+    } else {
+      await streamAssistantResponse([...messages, userMessage])
+    }
+  }
 
-    try {
-      // Build conversation history including the new user message
-      const conversationHistory = [
-        ...messages.map((m) => ({ role: m.role, content: m.content })),
-        { role: 'user' as const, content: userMessage.content },
-      ]
-
-      // Call the server function
-      const response = await sendChatMessage({
-        data: {
-          role: 'user',
-          message: userMessage.content,
-          model: MODEL_MAP[selectedModel],
-          messages: conversationHistory,
-          temperature: temperature,
-        },
+  // Run registered local handlers for the given tool calls; calls without a handler are skipped
+  const runLocalToolHandlers = async (toolCalls: ToolCall[]): Promise<Message[]> => {
+    const results: Message[] = []
+
+    for (const toolCall of toolCalls) {
+      const handler = getToolHandler(toolCall.name)
+      if (!handler) continue
+
+      let content: string
+      try {
+        content = await handler(toolCall.arguments ? JSON.parse(toolCall.arguments) : {})
+      } catch (error) {
+        content = `Error: ${error instanceof Error ? error.message : String(error)}`
+      }
+
+      addLog('Tool Call', `Chat Node ${id}: ${toolCall.name} answered by local handler`)
+      results.push({
+        id: `tool-${toolCall.id}`,
+        role: 'tool',
+        content,
+        toolCallId: toolCall.id,
+        name: toolCall.name,
       })
+    }
 
-      // Read the stream
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
+    return results
+  }
 
-      if (!reader) {
-        throw new Error('No reader available')
+  // Trim the oldest turns of `history` when the request would not fit `model`'s
+  // context window, following the node's strategy. The tree itself is untouched.
+  const fitToContextWindow = async (history: Message[], model: ModelInfo | undefined): Promise<Message[]> => {
+    if (contextStrategy === 'warn') return history
+    const estimate = estimateContext({
+      systemPrompt,
+      contexts: placedContexts,
+      history,
+      contextLength: model?.contextLength ?? null,
+      replyReserve,
+    })
+    if (!isOverLimit(estimate)) return history
+
+    const available = getHistoryBudget(estimate, contextStrategy)!
+    const { kept, trimmed } = fitHistory(history, available)
+    if (trimmed.length === 0) return history
+    addLog(
+      'Context Trimmed',
+      `Chat Node ${id}: ${trimmed.length} older messages ${contextStrategy === 'summarize' ? 'summarized' : 'dropped'} to fit ${model?.name || selectedModel}`
+    )
+    if (contextStrategy === 'dropOldest') return kept
+
+    const key = formatTranscript(trimmed)
+    let summary = historySummariesRef.current.get(key)
+    if (summary === undefined) {
+      try {
+        const result = await summarizeConversation({
+          data: {
+            messages: trimmed
+              .filter((m) => m.role !== 'tool' && !m.contextEvent)
+              .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+            type: 'summary',
+            provider,
+            model: selectedModel,
+            api_key: await getApiKey(provider),
+          },
+        })
+        summary = result.summary
+        historySummariesRef.current.set(key, summary)
+        recordSummaryUsage(result.usage)
+      } catch (error) {
+        // Without a summary the trimmed turns are simply dropped
+        console.error(`[Chat ${id}] Error summarizing trimmed history:`, error)
+        return kept
       }
+    }
+    return [createHistorySummaryMessage(summary), ...kept]
+  }
+
+  // Stream one reply from `model` into an assistant message below `history`.
+  // Retryable failures before anything arrives are retried with backoff; other
+  // failures stay inline on the message (with any partial text) so they can be
+  // retried or continued. Returns null when the reply did not complete.
+  const streamReply = async (
+    history: Message[],
+    model: string,
+    assistantMessageId: string,
+    // extraMessages are sent after `history` but not added to the tree
+    options: { compareGroup?: string; continueFrom?: Message; extraMessages?: Message[] } = {}
+  ): Promise<ChatStreamState | null> => {
+    const { compareGroup, continueFrom, extraMessages = [] } = options
+    const info = modelCatalog.models.find((m) => m.id === model)
+    const signal = abortControllerRef.current?.signal
+
+    // Continuing appends to the interrupted message instead of creating a new one
+    const toMessageFields = (state: ChatStreamState): Partial<Message> => {
+      const fields = toStreamedFields(state)
+      if (!continueFrom) return fields
+      return {
+        ...fields,
+        content: continueFrom.content + fields.content,
+        reasoning: (continueFrom.reasoning || '') + state.reasoning || undefined,
+        model: fields.model || continueFrom.model,
+        usage: combineMessageUsage(continueFrom.usage, fields.usage),
+      }
+    }
+    const discardReply = () => {
+      if (!continueFrom) setConversation((prev) => removeMessage(prev, assistantMessageId))
+    }
+
+    if (continueFrom) {
+      setConversation((prev) =>
+        patchMessage(prev, assistantMessageId, { error: undefined, truncated: undefined, finishReason: undefined })
+      )
+    } else {
+      // Create assistant message placeholder; compared replies stay off the active path
+      const placeholder: Message = { id: assistantMessageId, role: 'assistant', content: '', compareGroup }
+      const parentId = history.at(-1)?.id ?? null
+      setConversation((prev) =>
+        compareGroup ? addComparisonReply(prev, placeholder, parentId) : appendMessages(prev, [placeholder], parentId)
+      )
+    }
+
+    // Live mode resolves inputs at send time; remember what went out for the diff view
+    if (contextMode === 'live') setLastSentContexts(placedContexts)
+    const requestHistory = await fitToContextWindow(history, info)
+    if (signal?.aborted) {
+      discardReply()
+      return null
+    }
 
-      let accumulatedContent = ''
+    for (let attempt = 0; ; attempt++) {
+      let result: ChatStreamState
+      let isNetworkError = false
 
-      while (true) {
-        const { done, value } = await reader.read()
+      try {
+        // Call the server function
+        const response = await sendChatMessage({
+          data: {
+            role: 'user',
+            message: history.filter((m) => m.role === 'user').at(-1)?.content || '',
+            provider,
+            api_key: await getApiKey(provider),
+            model,
+            messages: withPlacedContexts(
+              toPayloadMessages([...requestHistory, ...extraMessages], { supportsImages: acceptsImages(info) }),
+              systemPrompt,
+              placedContexts
+            ),
+            // Only OpenRouter routes between models
+            fallback_models: provider === 'openrouter' && fallbackModels.length > 0 ? fallbackModels : undefined,
+            temperature: supportsParameter(info, 'temperature') ? temperature : undefined,
+            ...toPayloadSampling(sampling, info),
+            tools: supportsParameter(info, 'tools') ? toPayloadTools(tools) : undefined,
+            tool_choice: toPayloadToolChoice(toolChoice),
+            response_format: toPayloadResponseFormat(responseFormat, info),
+          },
+          signal,
+        })
+
+        // Update the assistant message with everything received so far
+        result = await consumeChatStream(response, (state) => {
+          setConversation((prev) => patchMessage(prev, assistantMessageId, toMessageFields(state)))
+        }, signal)
+      } catch (error) {
+        if (signal?.aborted) {
+          // Stopped before anything arrived
+          discardReply()
+          return null
+        }
+        console.error('Error sending message:', error)
+        // fetch rejects with a TypeError when the connection itself failed
+        isNetworkError = error instanceof TypeError
+        result = {
+          content: '',
+          reasoning: '',
+          toolCalls: [],
+          error: { message: error instanceof Error ? error.message : String(error) },
+        }
+      }
 
-        if (done) {
-          addLog('Message Received', `Chat Node ${id}: AI response completed (${accumulatedContent.length} chars)`)
-          break
+      if (result.error) {
+        const receivedNothing = !result.content && !result.reasoning && result.toolCalls.length === 0
+        const isRetryable = isNetworkError || isRetryableStatus(result.error.code)
+        if (receivedNothing && isRetryable && attempt < MAX_STREAM_RETRIES) {
+          const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+          addLog('Retrying', `Chat Node ${id}: ${model} failed (${result.error.message}), retry ${attempt + 1} of ${MAX_STREAM_RETRIES} in ${delay}ms`)
+          await new Promise((resolve) => setTimeout(resolve, delay))
+          if (signal?.aborted) {
+            discardReply()
+            return null
+          }
+          continue
         }
 
-        const chunk = decoder.decode(value, { stream: true })
-        accumulatedContent += chunk
-
-        // Update the assistant message with accumulated content
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === assistantMessageId
-              ? { ...msg, content: accumulatedContent }
-              : msg
-          )
-        )
+        addLog('Error', `Chat Node ${id}: Stream from ${model} failed - ${result.error.message}`)
+        // Keep the reply with its error so it can be retried or continued inline
+        setConversation((prev) => patchMessage(prev, assistantMessageId, toMessageFields(result)))
+        return null
       }
-    } catch (error) {
-      console.error('Error sending message:', error)
-      addLog('Error', `Chat Node ${id}: Failed to send message - ${error}`)
-      // Remove the placeholder message on error
-      setMessages((prev) => prev.filter((msg) => msg.id !== assistantMessageId))
-    } finally {
-      setIsLoading(false)
+
+      if (result.truncated) {
+        addLog('Generation Stopped', `Chat Node ${id}: ${model} stopped after ${result.content.length} chars`)
+        if (!result.content && !result.reasoning) discardReply()
+      }
+
+      return result
+    }
+  }
+
+  // Validate a reply against the response format. An invalid one gets an automatic
+  // repair request; the repaired reply becomes a sibling branch of the invalid one.
+  const checkStructuredReply = async (
+    history: Message[],
+    messageId: string,
+    content: string,
+    repairAttempt = 0
+  ): Promise<void> => {
+    if (responseFormat.mode === 'text') return
+
+    const validation = validateStructuredReply(content, responseFormat)
+    setConversation((prev) => patchMessage(prev, messageId, { jsonValidation: validation }))
+    if (validation.valid || repairAttempt >= MAX_REPAIR_ATTEMPTS || abortControllerRef.current?.signal.aborted) return
+
+    addLog('Structured Output', `Chat Node ${id}: reply failed validation (${validation.errors.length} errors), asking for a repair`)
+    const repairedId = `${messageId}-repair-${repairAttempt + 1}`
+    const repaired = await streamReply(history, selectedModel, repairedId, {
+      extraMessages: [
+        { id: `${messageId}-invalid`, role: 'assistant', content },
+        { id: `${messageId}-repair-request`, role: 'user', content: buildRepairPrompt(validation.errors, responseFormat) },
+      ],
+    })
+    if (repaired && !repaired.truncated) {
+      await checkStructuredReply(history, repairedId, repaired.content, repairAttempt + 1)
+    }
+  }
+
+  const beginGeneration = () => {
+    abortControllerRef.current = new AbortController()
+    setIsLoading(true)
+  }
+
+  const endGeneration = () => {
+    abortControllerRef.current = null
+    setIsLoading(false)
+  }
+
+  // Cancels the reader, which cancels the server stream and the upstream request
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Reply to `history` with the node's model. When every requested tool has a
+  // local handler the turn continues automatically.
+  const streamAssistantResponse = async (history: Message[], toolRound = 0): Promise<void> => {
+    if (toolRound === 0) beginGeneration()
+
+    const assistantMessageId = (Date.now() + 1).toString()
+    const result = await streamReply(history, selectedModel, assistantMessageId)
+    if (!result || result.truncated) {
+      endGeneration()
+      return
     }
+
+    const toolCalls = result.toolCalls
+
+    addLog(
+      'Message Received',
+      `Chat Node ${id}: AI response completed (${result.content.length} chars${toolCalls.length > 0 ? `, ${toolCalls.length} tool calls` : ''}${result.model ? `, ${result.model}` : ''})`
+    )
+
+    if (toolCalls.length === 0) {
+      await checkStructuredReply(history, assistantMessageId, result.content)
+      endGeneration()
+      return
+    }
+
+    const assistantMessage: Message = {
+      id: assistantMessageId,
+      role: 'assistant',
+      ...toStreamedFields(result),
+    }
+    const toolMessages = await runLocalToolHandlers(toolCalls)
+    setConversation((prev) => appendMessages(prev, toolMessages, assistantMessageId))
+
+    if (toolMessages.length === toolCalls.length && toolRound < MAX_TOOL_ROUNDS) {
+      await streamAssistantResponse([...history, assistantMessage, ...toolMessages], toolRound + 1)
+      return
+    }
+
+    if (toolMessages.length === toolCalls.length) {
+      addLog('Tool Call', `Chat Node ${id}: stopped after ${MAX_TOOL_ROUNDS} automatic tool rounds`)
+    }
+    endGeneration()
   }
 
+  // Send the same history to the node's model and every compare model at once.
+  // Tool calls are shown but not run automatically until one answer is kept.
+  const streamComparison = async (history: Message[]) => {
+    beginGeneration()
+
+    const group = `compare-${Date.now()}`
+    const models = [selectedModel, ...compareModels.filter((model) => model !== selectedModel)]
+    // Compared answers are validated but not repaired
+    const results = await Promise.all(
+      models.map(async (model, index) => {
+        const messageId = `${group}-${index}`
+        const result = await streamReply(history, model, messageId, { compareGroup: group })
+        if (result && !result.truncated) await checkStructuredReply(history, messageId, result.content, MAX_REPAIR_ATTEMPTS)
+        return result
+      })
+    )
+
+    addLog('Comparison Received', `Chat Node ${id}: ${results.filter(Boolean).length} of ${models.length} models answered`)
+    endGeneration()
+  }
+
+  // Re-roll an assistant reply; the new answer becomes a sibling branch
+  const handleRegenerate = async (messageId: string) => {
+    if (isLoading || isComparisonOpen) return
+    if (!confirmWithinBudget()) return
+
+    const index = messages.findIndex((m) => m.id === messageId)
+    if (index === -1) return
+
+    addLog('Regenerate', `Chat Node ${id}: regenerating message ${messageId} with ${selectedModel}`)
+    await streamAssistantResponse(messages.slice(0, index))
+  }
+
+  // Stream more text into a reply that was interrupted or stopped, keeping what it has
+  const handleContinue = async (messageId: string) => {
+    if (isLoading) return
+    if (!confirmWithinBudget()) return
+
+    const index = messages.findIndex((m) => m.id === messageId)
+    if (index === -1) return
+
+    addLog('Continue', `Chat Node ${id}: continuing message ${messageId} with ${selectedModel}`)
+    beginGeneration()
+    await streamReply(messages.slice(0, index + 1), selectedModel, messageId, { continueFrom: messages[index] })
+    endGeneration()
+  }
+
+  const handleKeepComparison = (messageId: string) => {
+    setConversation((prev) => keepComparisonReply(prev, messageId))
+    addLog('Comparison Kept', `Chat Node ${id}: kept message ${messageId}`)
+  }
+
+  // Record a user-supplied tool result and continue once the whole turn is answered
+  const handleSubmitToolResult = async (toolCall: ToolCall, result: string) => {
+    if (isLoading) return
+
+    const toolMessage: Message = {
+      id: `tool-${toolCall.id}`,
+      role: 'tool',
+      content: result,
+      toolCallId: toolCall.id,
+      name: toolCall.name,
+    }
+    const updatedMessages = [...messages, toolMessage]
+    setConversation((prev) => appendMessages(prev, [toolMessage], messages.at(-1)?.id ?? null))
+    addLog('Tool Result', `Chat Node ${id}: result provided for ${toolCall.name}`)
+
+    const lastToolTurn = [...updatedMessages].reverse().find((m) => m.role === 'assistant' && m.toolCalls?.length)
+    const answeredIds = new Set(updatedMessages.filter((m) => m.role === 'tool').map((m) => m.toolCallId))
+    if (lastToolTurn?.toolCalls?.every((call) => answeredIds.has(call.id))) {
+      await streamAssistantResponse(updatedMessages)
+    }
+  }
+
+  // Every branch was paid for, so usage counts the whole tree
+  const nodeUsage = getChatNodeUsage({ conversation: conversation.messages, summaryUsage: data.summaryUsage })
+
+  // Tool results are shown on the call cards rather than as separate bubbles
+  const toolResults = new Map(
+    messages.filter((m) => m.role === 'tool').map((m) => [m.toolCallId, m.content])
+  )
+
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     handleSend()
   }
 
+  const canSend = (!!input.trim() || attachments.length > 0) && !isComparisonOpen
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    handleAddFiles(files)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.files.length === 0) return
+    e.preventDefault()
+    handleAddFiles(Array.from(e.dataTransfer.files))
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -638,7 +1348,9 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           <div className="flex items-center gap-2">
             <Settings size={16} className="text-purple-600" />
             <span className="text-xs font-medium text-purple-700">
-              {isSettingsExpanded ? 'Settings' : `${selectedModel} • ${temperature.toFixed(2)}`}
+              {isSettingsExpanded
+                ? 'Settings'
+                : `${getModelLabel(selectedModel, modelCatalog.models)} • ${supportsTemperature ? temperature.toFixed(2) : 'default'}${systemPrompt.trim() ? ' • system prompt' : ''}${tools.length > 0 ? ` • ${tools.length} tool${tools.length === 1 ? '' : 's'}` : ''}`}
             </span>
           </div>
           {isSettingsExpanded ? (
@@ -651,30 +1363,49 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
         {/* Expandable Settings Content */}
         {isSettingsExpanded && (
           <div className="px-4 pb-3 pt-1 space-y-3 animate-in slide-in-from-top-2 duration-200">
+            {/* Provider Switcher */}
+            <ProviderPicker value={provider} disabled={isLoading} onChange={handleProviderChange} />
+
             {/* Model Switcher */}
             <div>
               <label className="text-xs font-medium text-gray-700 mb-2 block">
                 Model
               </label>
-              <div className="flex gap-2">
-                {(['ChatGPT', 'Claude', 'Gemini'] as AIModel[]).map((model) => (
-                  <button
-                    key={model}
-                    onClick={() => setSelectedModel(model)}
-                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                      selectedModel === model
-                        ? 'bg-purple-600 text-white shadow-md'
-                        : 'bg-white text-gray-600 hover:bg-purple-100'
-                    }`}
-                  >
-                    {model}
-                  </button>
-                ))}
-              </div>
+              <ModelPicker
+                value={selectedModel}
+                models={modelCatalog.models}
+                isLoading={modelCatalog.isLoading}
+                error={modelCatalog.error}
+                onChange={setSelectedModel}
+                onRefresh={modelCatalog.refresh}
+              />
             </div>
 
+            {/* Fallback Models */}
+            {provider === 'openrouter' && (
+              <FallbackModelsEditor
+                selectedModel={selectedModel}
+                fallbackModels={fallbackModels}
+                modelCatalog={modelCatalog}
+                onChange={setFallbackModels}
+              />
+            )}
+
+            {/* Compare Models */}
+            <CompareModelsEditor
+              enabled={isCompareMode}
+              selectedModel={selectedModel}
+              compareModels={compareModels}
+              modelCatalog={modelCatalog}
+              onEnabledChange={setIsCompareMode}
+              onCompareModelsChange={setCompareModels}
+            />
+
+            {/* System Prompt */}
+            <SystemPromptEditor value={systemPrompt} onChange={setSystemPrompt} />
+
             {/* Temperature Control */}
-            <div>
+            <div className={supportsTemperature ? '' : 'opacity-50'} title={supportsTemperature ? undefined : 'Not supported by this model'}>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-xs font-medium text-gray-700">
                   Temperature
@@ -690,19 +1421,40 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
                 step="0.01"
                 value={temperature}
                 onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                className="w-full h-2 bg-purple-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+                disabled={!supportsTemperature}
+                className="w-full h-2 bg-purple-200 rounded-lg appearance-none cursor-pointer accent-purple-600 disabled:cursor-not-allowed"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
                 <span>0 (Precise)</span>
                 <span>2 (Very Creative)</span>
               </div>
             </div>
+
+            {/* Response Format */}
+            <ResponseFormatEditor value={responseFormat} model={modelInfo} onChange={setResponseFormat} />
+
+            {/* Sampling Parameters */}
+            <SamplingSettings
+              sampling={sampling}
+              model={modelInfo}
+              onChange={setSampling}
+              onReset={handleResetSampling}
+            />
+
+            {/* Tool Definitions */}
+            <ToolsEditor
+              tools={tools}
+              toolChoice={toolChoice}
+              onToolsChange={setTools}
+              onToolChoiceChange={setToolChoice}
+              disabled={!supportsTools}
+            />
           </div>
         )}
       </div>
 
       {/* Active Inputs Indicator */}
-      {connectedContexts.size > 0 && (
+      {(connectedContexts.size > 0 || (contextMode === 'live' && lastSentContexts.length > 0)) && (
         <div className="nodrag bg-gradient-to-r from-amber-50 to-orange-50 border-b border-amber-200">
           <button
             onClick={() => setIsContextExpanded(!isContextExpanded)}
@@ -723,10 +1475,54 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
 
           {isContextExpanded && (
             <div className="px-4 pb-3 pt-1 space-y-2 animate-in slide-in-from-top-2 duration-200">
+              {/* Delivery mode: injected notes or a context block resolved at send time */}
+              <div className="flex items-center gap-2">
+                <div className="flex flex-1 gap-2">
+                  <button
+                    onClick={() => setContextMode('inject')}
+                    className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-all ${
+                      contextMode === 'inject'
+                        ? 'bg-amber-600 text-white shadow-sm'
+                        : 'bg-white text-gray-600 hover:bg-amber-100'
+                    }`}
+                    title="Add each input and every change to the conversation"
+                  >
+                    Inject messages
+                  </button>
+                  <button
+                    onClick={() => setContextMode('live')}
+                    className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-all ${
+                      contextMode === 'live'
+                        ? 'bg-amber-600 text-white shadow-sm'
+                        : 'bg-white text-gray-600 hover:bg-amber-100'
+                    }`}
+                    title="Send the current inputs as a context block with every message"
+                  >
+                    Live context
+                  </button>
+                </div>
+                {contextMode === 'live' && (
+                  <button
+                    onClick={() => setIsContextDiffOpen(!isContextDiffOpen)}
+                    className="px-2 py-1 rounded text-xs font-medium text-amber-700 hover:bg-amber-100 transition-colors"
+                  >
+                    {isContextDiffOpen ? 'Hide changes' : 'Changes'}
+                  </button>
+                )}
+              </div>
+
+              {contextMode === 'live' && isContextDiffOpen && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Since the last message sent:</p>
+                  <ContextDiff previous={lastSentContexts} current={placedContexts} />
+                </div>
+              )}
+
               {Array.from(connectedContexts.entries()).map(([contextId, contextText]) => {
                 const sourceNode = nodes.find(node => node.id === contextId)
                 const nodeType = sourceNode?.type === 'chatNode' ? 'Chat' : 'Context'
                 const contextLabel = (sourceNode?.data as any)?.label || nodeType
+                const inputEdge = edges.find((edge) => edge.source === contextId && edge.target === id && !isForkEdge(edge))
                 return (
                   <div
                     key={contextId}
@@ -734,6 +1530,9 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
                   >
                     <p className="text-xs font-medium text-gray-700 mb-1">
                       {nodeType}: {contextLabel}
+                      {nodeType === 'Chat' && inputEdge && (
+                        <span className="ml-1 font-normal text-gray-400">({formatEdgeLabel(getEdgeContextSettings(inputEdge))})</span>
+                      )}
                     </p>
                     <p className="text-xs text-gray-500 line-clamp-2">
                       {contextText || 'No content'}
@@ -751,6 +1550,15 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
         <h3 className="text-lg font-semibold text-gray-800">
           {data.label || 'AI Chat'}
         </h3>
+        <div className="flex items-center gap-3">
+          {nodeUsage.totalTokens > 0 && (
+            <span
+              className="text-xs text-gray-500"
+              title={`${nodeUsage.promptTokens} prompt + ${nodeUsage.completionTokens} completion tokens`}
+            >
+              {formatUsage(nodeUsage)}
+            </span>
+          )}
         <button
           onClick={handleClose}
           className="p-1 hover:bg-gray-100 rounded-md transition-colors"
@@ -758,6 +1566,7 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
         >
           <X size={18} className="text-gray-500 hover:text-gray-700" />
         </button>
+        </div>
       </div>
 
       {/* Chat Messages Area */}
@@ -777,6 +1586,16 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
         ) : (
           <div className="space-y-4">
             {messages.map((message) => {
+              if (message.role === 'tool') return null
+              if (message.contextEvent) {
+                return (
+                  <div key={message.id} className="flex justify-center">
+                    <span className="px-3 py-1 rounded-full bg-amber-50 border border-amber-200 text-xs text-amber-700">
+                      {message.content}
+                    </span>
+                  </div>
+                )
+              }
               const isContextMessage = message.content.startsWith('📎')
               return (
               <div
@@ -794,6 +1613,9 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
                       : 'bg-white rounded-tl-sm'
                   }`}
                 >
+                  {message.pinned && (
+                    <Pin size={12} className="absolute -top-1.5 -left-1.5 text-purple-600 fill-purple-200" aria-label="Pinned" />
+                  )}
                   {editingMessageId === message.id ? (
                     <div className="nodrag">
                       <textarea
@@ -830,38 +1652,83 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
                   ) : (
                     <>
                       <div>
-                        {message.replyTo && (
-                          <div className="mb-2 pl-3 border-l-2 border-gray-400 opacity-70">
+                        {message.replyTo?.map((reply) => (
+                          <div key={reply.id} className="mb-2 pl-3 border-l-2 border-gray-400 opacity-70">
                             <p className="text-xs font-medium mb-1">
-                              {message.replyTo.role === 'user' ? 'You' : 'AI'}
+                              {reply.role === 'user' ? 'You' : 'AI'}
                             </p>
                             <p className="text-xs line-clamp-2">
-                              {message.replyTo.content}
+                              {reply.content}
                             </p>
                           </div>
-                        )}
+                        ))}
                         {message.role === 'user' ? (
-                          <p className="text-sm leading-relaxed whitespace-pre-wrap text-white select-text">
-                            {message.content}
-                          </p>
+                          <>
+                            {message.attachments && (
+                              <div className={message.content ? 'mb-2' : ''}>
+                                <AttachmentList attachments={message.attachments} inverted />
+                              </div>
+                            )}
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap text-white select-text">
+                              {message.content}
+                            </p>
+                          </>
                         ) : (
                           <div className="text-sm leading-relaxed text-gray-700 prose prose-sm max-w-none prose-headings:mt-6 prose-headings:mb-4 prose-p:my-4 prose-pre:my-4 prose-ul:my-3 prose-ol:my-3 prose-li:my-1 select-text">
-                            <ReactMarkdown
-                              remarkPlugins={[remarkGfm]}
-                              components={{
-                                code: (props) => (
-                                  <CodeBlock
-                                    {...props}
-                                    copiedCodeBlock={copiedCodeBlock}
-                                    setCopiedCodeBlock={setCopiedCodeBlock}
-                                  />
-                                ),
-                              }}
-                            >
-                              {message.content}
-                            </ReactMarkdown>
+                            {message.reasoning && (
+                              <ReasoningBlock
+                                reasoning={message.reasoning}
+                                isStreaming={isLoading && !message.content && message.id === messages.at(-1)?.id}
+                              />
+                            )}
+                            {message.jsonValidation ? (
+                              <StructuredReply message={message} />
+                            ) : (
+                              <ReactMarkdown
+                                remarkPlugins={[remarkGfm]}
+                                components={{
+                                  code: (props) => (
+                                    <CodeBlock
+                                      {...props}
+                                      copiedCodeBlock={copiedCodeBlock}
+                                      setCopiedCodeBlock={setCopiedCodeBlock}
+                                    />
+                                  ),
+                                }}
+                              >
+                                {message.content}
+                              </ReactMarkdown>
+                            )}
+                            {message.toolCalls?.map((toolCall) => (
+                              <ToolCallCard
+                                key={toolCall.id || toolCall.name}
+                                toolCall={toolCall}
+                                result={toolResults.get(toolCall.id)}
+                                disabled={isLoading}
+                                onSubmitResult={handleSubmitToolResult}
+                              />
+                            ))}
+                            <MessageStatus
+                              message={message}
+                              disabled={isLoading}
+                              onRetry={() => handleRegenerate(message.id)}
+                              onContinue={() => handleContinue(message.id)}
+                            />
+                            {message.usage && (
+                              <p className="not-prose mt-2 text-[11px] text-gray-400">
+                                {formatMessageUsage(message.usage)}
+                                {message.model && ` · ${message.model}`}
+                              </p>
+                            )}
                           </div>
                         )}
+                        <BranchNavigator
+                          siblings={getSiblings(conversation, message.id)}
+                          messageId={message.id}
+                          disabled={isLoading}
+                          onSelect={handleSelectBranch}
+                          onCompare={() => setComparingMessageId(message.id)}
+                        />
                       </div>
                       <div className="nodrag absolute -top-2 -right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                         <button
@@ -882,6 +1749,33 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
                             <Copy size={12} />
                           )}
                         </button>
+                        <button
+                          onClick={() => handleFork(message.id)}
+                          className="p-1.5 bg-gray-700 text-white rounded-full hover:bg-gray-800"
+                          aria-label="Fork from here"
+                          title="Fork from here"
+                        >
+                          <GitBranch size={12} />
+                        </button>
+                        <button
+                          onClick={() => handleTogglePin(message.id)}
+                          className={`p-1.5 text-white rounded-full ${message.pinned ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-700 hover:bg-gray-800'}`}
+                          aria-label={message.pinned ? 'Unpin message' : 'Pin message'}
+                          title={message.pinned ? 'Unpin message' : 'Pin: never trimmed to fit the context window'}
+                        >
+                          {message.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                        </button>
+                        {message.role === 'assistant' && !isContextMessage && (
+                          <button
+                            onClick={() => handleRegenerate(message.id)}
+                            disabled={isLoading}
+                            className="p-1.5 bg-gray-700 text-white rounded-full hover:bg-gray-800 disabled:opacity-50"
+                            aria-label="Regenerate response"
+                            title="Regenerate response"
+                          >
+                            <RefreshCw size={12} />
+                          </button>
+                        )}
                         {message.role === 'user' && (
                           <button
                             onClick={() => handleEditMessage(message.id, message.content)}
@@ -898,62 +1792,73 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
               </div>
               )
             })}
+            {isComparisonOpen && (
+              <CompareResponses replies={openComparison} isLoading={isLoading} onKeep={handleKeepComparison} />
+            )}
             <div ref={messagesEndRef} />
           </div>
         )}
       </div>
 
       {/* Input Area */}
-      <div className="nodrag p-4 border-t border-gray-200 bg-white rounded-b-2xl">
+      <div
+        className="nodrag p-4 border-t border-gray-200 bg-white rounded-b-2xl"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+      >
         {/* Reply Preview */}
-        {replyingTo && (
-          <div className="mb-3 p-2 bg-gray-50 rounded-lg border border-gray-200 flex items-start justify-between">
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-1">
-                <Reply size={14} className="text-purple-600 flex-shrink-0" />
-                <p className="text-xs font-medium text-purple-600">
-                  Replying to {replyingTo.role === 'user' ? 'yourself' : 'AI'}
-                </p>
-              </div>
-              <p className="text-xs text-gray-600 line-clamp-2">
-                {replyingTo.content}
-              </p>
-            </div>
-            <button
-              onClick={handleCancelReply}
-              className="p-1 hover:bg-gray-200 rounded-md transition-colors ml-2 flex-shrink-0"
-              aria-label="Cancel reply"
-            >
-              <X size={14} className="text-gray-500" />
-            </button>
+        <ReplyPreview replyingTo={replyingTo} onRemove={handleRemoveReply} onClear={handleCancelReply} />
+        {/* Pending Attachments */}
+        {attachments.length > 0 && (
+          <div className="mb-3">
+            <AttachmentList attachments={attachments} onRemove={handleRemoveAttachment} />
           </div>
         )}
+        {attachmentError && (
+          <p className="mb-2 text-xs text-red-600 whitespace-pre-line">{attachmentError}</p>
+        )}
         <form onSubmit={onSubmit}>
           <div className="relative flex items-end gap-2">
+            <AttachmentButton disabled={isLoading} onFiles={handleAddFiles} />
             <textarea
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder="Message..."
               disabled={isLoading}
               className="nodrag nowheel flex-1 resize-none rounded-xl border border-gray-300 px-4 py-3 pr-12 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent min-h-[52px] max-h-[200px] placeholder:text-gray-400 disabled:bg-gray-100 disabled:cursor-not-allowed"
               rows={1}
               onWheel={(e) => e.stopPropagation()}
             />
-            <button
-              type="submit"
-              disabled={!input.trim() || isLoading}
-              className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
-                input.trim() && !isLoading
-                  ? 'bg-purple-600 hover:bg-purple-700 text-white shadow-md hover:shadow-lg'
-                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-              }`}
-            >
-              <ArrowUp size={20} strokeWidth={2.5} />
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="absolute right-2 bottom-2 p-2 rounded-lg transition-all bg-gray-800 hover:bg-gray-900 text-white shadow-md"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square size={20} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!canSend}
+                className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
+                  canSend
+                    ? 'bg-purple-600 hover:bg-purple-700 text-white shadow-md hover:shadow-lg'
+                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                }`}
+              >
+                <ArrowUp size={20} strokeWidth={2.5} />
+              </button>
+            )}
           </div>
         </form>
 
+        <ContextGauge estimate={contextEstimate} strategy={contextStrategy} onStrategyChange={setContextStrategy} />
+
         {/* Apply Changes Button and Status */}
         {hasChildConnections && (
           <div className="mt-3 space-y-2">
@@ -1051,7 +1956,7 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
           </button>
           <button
             onClick={handleRedo}
-            disabled={deletedMessages.length === 0}
+            disabled={!canStepForward(conversation)}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
             aria-label="Redo"
             title="Redo message"
@@ -1104,24 +2009,69 @@ export default function ChatNode({ id, data, selected }: ChatNodeProps) {
         replyingTo={replyingTo}
         copiedCodeBlock={copiedCodeBlock}
         chatLabel={data.label}
+        usage={nodeUsage}
+        provider={provider}
+        onProviderChange={handleProviderChange}
         selectedModel={selectedModel}
+        modelCatalog={modelCatalog}
         temperature={temperature}
+        sampling={sampling}
+        systemPrompt={systemPrompt}
         isSettingsExpanded={isSettingsExpanded}
-        deletedMessages={deletedMessages}
+        conversation={conversation}
+        canRedo={canStepForward(conversation)}
         onClose={() => setIsExpandOpen(false)}
         onInputChange={setInput}
         onSend={handleSend}
         onKeyDown={handleKeyDown}
         onCancelReply={handleCancelReply}
+        onRemoveReply={handleRemoveReply}
         onUndo={handleUndo}
         onRedo={handleRedo}
+        onSelectBranch={handleSelectBranch}
+        onCompareBranches={setComparingMessageId}
+        onFork={handleFork}
+        onTogglePin={handleTogglePin}
+        contextEstimate={contextEstimate}
+        contextStrategy={contextStrategy}
+        onContextStrategyChange={setContextStrategy}
+        onStop={handleStop}
+        onContinue={handleContinue}
+        attachments={attachments}
+        attachmentError={attachmentError}
+        onAddFiles={handleAddFiles}
+        onRemoveAttachment={handleRemoveAttachment}
+        responseFormat={responseFormat}
+        onResponseFormatChange={setResponseFormat}
+        fallbackModels={fallbackModels}
+        onFallbackModelsChange={setFallbackModels}
+        onRegenerate={handleRegenerate}
+        onKeepComparison={handleKeepComparison}
+        isCompareMode={isCompareMode}
+        compareModels={compareModels}
+        onCompareModeChange={setIsCompareMode}
+        onCompareModelsChange={setCompareModels}
         onModelChange={setSelectedModel}
         onTemperatureChange={setTemperature}
+        onSamplingChange={setSampling}
+        onSystemPromptChange={setSystemPrompt}
+        onResetSampling={handleResetSampling}
         onToggleSettings={() => setIsSettingsExpanded(!isSettingsExpanded)}
+        onSubmitToolResult={handleSubmitToolResult}
         setCopiedCodeBlock={setCopiedCodeBlock}
       />,
       document.body
     )}
+    {comparingMessageId && createPortal(
+      <BranchCompare
+        conversation={conversation}
+        messageId={comparingMessageId}
+        activeIds={new Set(messages.map((m) => m.id))}
+        onSelect={handleSelectBranch}
+        onClose={() => setComparingMessageId(null)}
+      />,
+      document.body
+    )}
     </>
   )
 }
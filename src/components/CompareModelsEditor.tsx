@@ -0,0 +1,77 @@
+import { X } from 'lucide-react'
+import { getModelLabel, type ModelCatalog } from '../lib/modelCatalog'
+import ModelPicker from './ModelPicker'
+
+interface CompareModelsEditorProps {
+  enabled: boolean
+  selectedModel: string
+  compareModels: string[]
+  modelCatalog: ModelCatalog
+  onEnabledChange: (enabled: boolean) => void
+  onCompareModelsChange: (models: string[]) => void
+}
+
+// Extra models that answer every message next to the node's own model
+export default function CompareModelsEditor({
+  enabled,
+  selectedModel,
+  compareModels,
+  modelCatalog,
+  onEnabledChange,
+  onCompareModelsChange,
+}: CompareModelsEditorProps) {
+  const handleAdd = (modelId: string) => {
+    if (modelId === selectedModel || compareModels.includes(modelId)) return
+    onCompareModelsChange([...compareModels, modelId])
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-xs font-medium text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-3.5 h-3.5 text-purple-600 bg-white border-gray-300 rounded focus:ring-purple-500 focus:ring-2 cursor-pointer"
+        />
+        Compare models
+        {enabled && compareModels.length > 0 && (
+          <span className="text-[10px] font-medium text-purple-700 bg-white px-1.5 py-0.5 rounded">
+            {compareModels.length + 1} answers per message
+          </span>
+        )}
+      </label>
+
+      {enabled && (
+        <div className="mt-2 space-y-2">
+          <div className="flex flex-wrap gap-1">
+            <span className="px-2 py-0.5 text-[11px] rounded bg-purple-600 text-white">
+              {getModelLabel(selectedModel, modelCatalog.models)}
+            </span>
+            {compareModels.map((modelId) => (
+              <span key={modelId} className="flex items-center gap-1 px-2 py-0.5 text-[11px] rounded bg-white text-gray-700 border border-gray-200">
+                {getModelLabel(modelId, modelCatalog.models)}
+                <button
+                  onClick={() => onCompareModelsChange(compareModels.filter((m) => m !== modelId))}
+                  className="hover:text-red-600"
+                  aria-label={`Remove ${modelId}`}
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+          <ModelPicker
+            value=""
+            placeholder="Add a model to compare..."
+            models={modelCatalog.models}
+            isLoading={modelCatalog.isLoading}
+            error={modelCatalog.error}
+            onChange={handleAdd}
+            onRefresh={modelCatalog.refresh}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { Check } from 'lucide-react'
+import type { Message } from '../lib/chatTypes'
+import { formatMessageUsage } from '../lib/usage'
+import ReasoningBlock from './ReasoningBlock'
+import MessageStatus from './MessageStatus'
+
+interface CompareResponsesProps {
+  replies: Message[]
+  isLoading: boolean
+  onKeep: (messageId: string) => void
+}
+
+// Answers from several models to the same history, streamed side by side
+export default function CompareResponses({ replies, isLoading, onKeep }: CompareResponsesProps) {
+  return (
+    <div className="nodrag grid gap-2" style={{ gridTemplateColumns: `repeat(${replies.length}, minmax(0, 1fr))` }}>
+      {replies.map((reply) => (
+        <div key={reply.id} className="flex flex-col rounded-2xl bg-white shadow-sm border border-gray-200 min-w-0">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-100">
+            <span className="text-[11px] font-medium text-gray-600 truncate" title={reply.model}>
+              {reply.model || 'Waiting...'}
+            </span>
+            <button
+              onClick={() => onKeep(reply.id)}
+              disabled={isLoading}
+              className="px-2 py-0.5 text-[11px] font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded flex items-center gap-1 transition-colors disabled:opacity-40 flex-shrink-0"
+              title="Keep this answer as the reply"
+            >
+              <Check size={12} />
+              Keep
+            </button>
+          </div>
+          <div className="px-3 py-2 text-sm leading-relaxed text-gray-700 prose prose-sm max-w-none select-text overflow-x-auto">
+            {reply.reasoning && (
+              <ReasoningBlock reasoning={reply.reasoning} isStreaming={isLoading && !reply.content} />
+            )}
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{reply.content}</ReactMarkdown>
+            <MessageStatus message={reply} />
+            {reply.usage && (
+              <p className="not-prose mt-2 text-[11px] text-gray-400">{formatMessageUsage(reply.usage)}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { diffContexts } from '../lib/contextDiff'
+import type { PlacedContext } from '../lib/edgeContext'
+
+interface ContextDiffProps {
+  previous: PlacedContext[]
+  current: PlacedContext[]
+}
+
+const STATUS_STYLES = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-gray-100 text-gray-500',
+}
+
+// What the next request's context block changes compared to the last one sent
+export default function ContextDiff({ previous, current }: ContextDiffProps) {
+  const changes = diffContexts(previous, current)
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No connected inputs.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {changes.map((change) => (
+        <div key={change.sourceId} className="bg-white rounded-lg border border-amber-200 overflow-hidden">
+          <div className="flex items-center justify-between px-2 py-1 border-b border-amber-100">
+            <span className="text-xs font-medium text-gray-700">{change.label}</span>
+            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_STYLES[change.status]}`}>
+              {change.status}
+            </span>
+          </div>
+          {change.status !== 'unchanged' && (
+            <pre
+              className="nowheel max-h-40 overflow-y-auto px-2 py-1 text-[11px] leading-snug font-mono whitespace-pre-wrap"
+              onWheel={(e) => e.stopPropagation()}
+            >
+              {change.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added'
+                      ? 'bg-green-50 text-green-800'
+                      : line.type === 'removed'
+                      ? 'bg-red-50 text-red-800 line-through'
+                      : 'text-gray-500'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import { BaseEdge, EdgeLabelRenderer, getBezierPath, useInternalNode, useReactFlow, type EdgeProps } from '@xyflow/react'
+import { X } from 'lucide-react'
+import { FORK_EDGE_KIND } from '../lib/fork'
+import {
+  EDGE_CONTENT_LABELS,
+  EDGE_PLACEMENT_LABELS,
+  formatEdgeLabel,
+  getEdgeContextSettings,
+  type EdgeContentMode,
+  type EdgeContextSettings,
+  type EdgePlacement,
+} from '../lib/edgeContext'
+
+// Replaces React Flow's default edge. Chat-to-chat connections get a label
+// showing their context settings, which opens an editor when clicked; every
+// other edge (context inputs, forks) renders as before.
+export default function ContextEdge({
+  id,
+  source,
+  target,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  data,
+  label,
+  labelStyle,
+  labelShowBg,
+  labelBgStyle,
+  labelBgPadding,
+  labelBgBorderRadius,
+  style,
+  markerStart,
+  markerEnd,
+  interactionWidth,
+}: EdgeProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const { setEdges } = useReactFlow()
+  const sourceNode = useInternalNode(source)
+  const targetNode = useInternalNode(target)
+  const [edgePath, labelX, labelY] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  })
+
+  const isChatEdge =
+    sourceNode?.type === 'chatNode' && targetNode?.type === 'chatNode' && data?.kind !== FORK_EDGE_KIND
+
+  if (!isChatEdge) {
+    return (
+      <BaseEdge
+        id={id}
+        path={edgePath}
+        labelX={labelX}
+        labelY={labelY}
+        label={label}
+        labelStyle={labelStyle}
+        labelShowBg={labelShowBg}
+        labelBgStyle={labelBgStyle}
+        labelBgPadding={labelBgPadding}
+        labelBgBorderRadius={labelBgBorderRadius}
+        style={style}
+        markerStart={markerStart}
+        markerEnd={markerEnd}
+        interactionWidth={interactionWidth}
+      />
+    )
+  }
+
+  const settings = getEdgeContextSettings({ id, source, target, data })
+
+  const updateSettings = (changes: Partial<EdgeContextSettings>) => {
+    setEdges((edges) =>
+      edges.map((edge) =>
+        edge.id === id ? { ...edge, data: { ...edge.data, context: { ...settings, ...changes } } } : edge
+      )
+    )
+  }
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerStart={markerStart} markerEnd={markerEnd} interactionWidth={interactionWidth} />
+      <EdgeLabelRenderer>
+        <div
+          className="nodrag nopan absolute"
+          style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, pointerEvents: 'all' }}
+        >
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="px-2 py-0.5 rounded-full border border-purple-200 bg-white text-[11px] text-purple-700 shadow-sm hover:bg-purple-50 transition-colors"
+            title="Change what this connection sends"
+          >
+            {formatEdgeLabel(settings)}
+          </button>
+
+          {isEditing && (
+            <div className="absolute left-1/2 top-full mt-2 -translate-x-1/2 w-56 rounded-lg border border-gray-200 bg-white p-3 shadow-lg space-y-3 z-10">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-700">Connection context</span>
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="p-0.5 hover:bg-gray-100 rounded transition-colors"
+                  aria-label="Close"
+                >
+                  <X size={12} className="text-gray-500" />
+                </button>
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-gray-600 mb-1 block">Content</label>
+                <div className="flex flex-wrap gap-1">
+                  {(Object.keys(EDGE_CONTENT_LABELS) as EdgeContentMode[]).map((content) => (
+                    <button
+                      key={content}
+                      onClick={() => updateSettings({ content })}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                        settings.content === content
+                          ? 'bg-purple-600 text-white shadow-sm'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {EDGE_CONTENT_LABELS[content]}
+                    </button>
+                  ))}
+                </div>
+                {settings.content === 'lastN' && (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                    Turns
+                    <input
+                      type="number"
+                      min={1}
+                      value={settings.lastN}
+                      onChange={(e) => {
+                        const lastN = Number.parseInt(e.target.value, 10)
+                        if (lastN >= 1) updateSettings({ lastN })
+                      }}
+                      className="w-16 rounded border border-gray-300 bg-white px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-gray-600 mb-1 block">Placement</label>
+                <div className="flex flex-col gap-1">
+                  {(Object.keys(EDGE_PLACEMENT_LABELS) as EdgePlacement[]).map((placement) => (
+                    <button
+                      key={placement}
+                      onClick={() => updateSettings({ placement })}
+                      className={`px-2 py-1 rounded text-xs font-medium text-left transition-all ${
+                        settings.placement === placement
+                          ? 'bg-purple-600 text-white shadow-sm'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {EDGE_PLACEMENT_LABELS[placement]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </EdgeLabelRenderer>
+    </>
+  )
+}
@@ -0,0 +1,47 @@
+import { formatTokens } from '../lib/usage'
+import type { ContextEstimate, ContextStrategy } from '../lib/contextBudget'
+
+interface ContextGaugeProps {
+  estimate: ContextEstimate
+  strategy: ContextStrategy
+  onStrategyChange: (strategy: ContextStrategy) => void
+}
+
+// Estimated size of the next request against the model's context window
+export default function ContextGauge({ estimate, strategy, onStrategyChange }: ContextGaugeProps) {
+  const ratio = estimate.limit ? estimate.total / estimate.limit : 0
+  const barColor = ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-purple-500'
+  const breakdown = [
+    `System prompt: ~${formatTokens(estimate.systemTokens)}`,
+    ...estimate.contexts.map((context) => `${context.label}: ~${formatTokens(context.tokens)}`),
+    `Conversation: ~${formatTokens(estimate.historyTokens)}`,
+  ].join('\n')
+
+  return (
+    <div className="nodrag mt-2 flex items-center gap-2" title={breakdown}>
+      <div className="flex-1 min-w-0">
+        <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+          <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+        </div>
+        <p className={`mt-0.5 text-[11px] ${ratio > 1 ? 'text-red-600' : 'text-gray-500'}`}>
+          ~{formatTokens(estimate.total)}
+          {estimate.limit ? ` / ${formatTokens(estimate.limit)} tokens` : ' tokens (context length unknown)'}
+          {ratio > 1 &&
+            (strategy === 'warn'
+              ? ' · over the limit'
+              : ` · older turns will be ${strategy === 'summarize' ? 'summarized' : 'dropped'}`)}
+        </p>
+      </div>
+      <select
+        value={strategy}
+        onChange={(e) => onStrategyChange(e.target.value as ContextStrategy)}
+        className="rounded border border-gray-300 bg-white px-1 py-0.5 text-[11px] text-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        title="What to do when the conversation no longer fits"
+      >
+        <option value="warn">Warn only</option>
+        <option value="dropOldest">Drop oldest</option>
+        <option value="summarize">Summarize oldest</option>
+      </select>
+    </div>
+  )
+}
@@ -13,6 +13,8 @@ interface ContextNodeProps {
   data: {
     label?: string
     initialText?: string
+    // Applied text, read by connected chats and restored when the canvas loads
+    text?: string
   }
 }
 
@@ -110,7 +112,7 @@ function CodeBlock({ inline, className, children, copiedCodeBlock, setCopiedCode
 }
 
 export default function ContextNode({ id, data }: ContextNodeProps) {
-  const [text, setText] = useState(data.initialText || '')
+  const [text, setText] = useState(data.text || data.initialText || '')
   const [savedText, setSavedText] = useState(data.text || data.initialText || '')
   const [hasChanges, setHasChanges] = useState(false)
   const [isExpandOpen, setIsExpandOpen] = useState(false)
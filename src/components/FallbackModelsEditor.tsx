@@ -0,0 +1,50 @@
+import { X } from 'lucide-react'
+import { getModelLabel, type ModelCatalog } from '../lib/modelCatalog'
+import ModelPicker from './ModelPicker'
+
+interface FallbackModelsEditorProps {
+  selectedModel: string
+  fallbackModels: string[]
+  modelCatalog: ModelCatalog
+  onChange: (models: string[]) => void
+}
+
+// Models OpenRouter falls back to, in order, when the node's model errors or is unavailable
+export default function FallbackModelsEditor({ selectedModel, fallbackModels, modelCatalog, onChange }: FallbackModelsEditorProps) {
+  const handleAdd = (modelId: string) => {
+    if (modelId === selectedModel || fallbackModels.includes(modelId)) return
+    onChange([...fallbackModels, modelId])
+  }
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-gray-700 mb-2 block">Fallback models</label>
+      {fallbackModels.length > 0 && (
+        <ol className="mb-2 space-y-1">
+          {fallbackModels.map((modelId, index) => (
+            <li key={modelId} className="flex items-center gap-2 px-2 py-1 text-[11px] rounded bg-white text-gray-700 border border-gray-200">
+              <span className="text-gray-400">{index + 1}.</span>
+              <span className="flex-1 truncate">{getModelLabel(modelId, modelCatalog.models)}</span>
+              <button
+                onClick={() => onChange(fallbackModels.filter((m) => m !== modelId))}
+                className="hover:text-red-600"
+                aria-label={`Remove ${modelId}`}
+              >
+                <X size={10} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <ModelPicker
+        value=""
+        placeholder={fallbackModels.length > 0 ? 'Add another fallback...' : 'Add a fallback model...'}
+        models={modelCatalog.models}
+        isLoading={modelCatalog.isLoading}
+        error={modelCatalog.error}
+        onChange={handleAdd}
+        onRefresh={modelCatalog.refresh}
+      />
+    </div>
+  )
+}
@@ -1,38 +1,134 @@
-import { Link } from '@tanstack/react-router'
+import { Link, useNavigate, useParams, useRouteContext } from '@tanstack/react-router'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { liveQuery } from 'dexie'
 import {
-  ChevronDown,
-  ChevronRight,
+  Check,
+  Copy,
   Home,
+  LayoutDashboard,
+  LogOut,
   Menu,
-  Network,
-  SquareFunction,
-  StickyNote,
+  Pencil,
+  Plus,
+  Settings,
+  Trash2,
   X,
 } from 'lucide-react'
+import {
+  createWorkbench,
+  deleteWorkbench,
+  duplicateWorkbench,
+  listWorkbenches,
+  renameWorkbench,
+  type WorkbenchRecord,
+} from '../lib/db'
+import { signOut } from '../functions/auth'
+
+function formatLastModified(timestamp: number) {
+  const seconds = Math.round((Date.now() - timestamp) / 1000)
+  if (seconds < 60) return 'just now'
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return new Date(timestamp).toLocaleDateString()
+}
 
 export default function Header() {
   const [isOpen, setIsOpen] = useState(false)
-  const [groupedExpanded, setGroupedExpanded] = useState<
-    Record<string, boolean>
-  >({})
+  const [workbenches, setWorkbenches] = useState<WorkbenchRecord[]>([])
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const navigate = useNavigate()
+  const { workbenchId: activeWorkbenchId } = useParams({ strict: false })
+  const { user } = useRouteContext({ from: '__root__' })
+
+  // Keep the workbench list in sync with IndexedDB (client only); the sign-in
+  // page has no database open
+  useEffect(() => {
+    if (!user) return
+    const subscription = liveQuery(() => listWorkbenches()).subscribe({
+      next: setWorkbenches,
+      error: (error) => console.error('Failed to list workbenches:', error),
+    })
+    return () => subscription.unsubscribe()
+  }, [user?.id])
+
+  const handleSignOut = async () => {
+    await signOut()
+    // A full load drops everything the signed-in user had in memory
+    window.location.assign('/login')
+  }
+
+  const openWorkbench = (workbenchId: string) => {
+    setIsOpen(false)
+    navigate({ to: '/wb/$workbenchId', params: { workbenchId } })
+  }
+
+  const handleCreate = async () => {
+    const workbench = await createWorkbench(`Workbench ${workbenches.length + 1}`)
+    openWorkbench(workbench.id)
+  }
+
+  const handleStartRename = (workbench: WorkbenchRecord) => {
+    setRenamingId(workbench.id)
+    setRenameValue(workbench.name)
+  }
+
+  const handleSaveRename = async () => {
+    if (renamingId && renameValue.trim()) {
+      await renameWorkbench(renamingId, renameValue.trim())
+    }
+    setRenamingId(null)
+    setRenameValue('')
+  }
+
+  const handleDuplicate = async (workbenchId: string) => {
+    const copy = await duplicateWorkbench(workbenchId)
+    openWorkbench(copy.id)
+  }
+
+  const handleDelete = async (workbench: WorkbenchRecord) => {
+    if (!window.confirm(`Delete "${workbench.name}"? This cannot be undone.`)) return
+
+    // Saves only update existing records, so the open canvas can't bring it back
+    await deleteWorkbench(workbench.id)
+    if (workbench.id === activeWorkbenchId) {
+      navigate({ to: '/' })
+    }
+  }
 
   return (
     <>
       <header className="p-4 flex items-center bg-gray-800 text-white shadow-lg">
-        <button
-          onClick={() => setIsOpen(true)}
-          className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
-          aria-label="Open menu"
-        >
-          <Menu size={24} />
-        </button>
-        <h1 className="ml-4 text-xl font-semibold">
+        {user && (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="p-2 mr-4 hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Open menu"
+          >
+            <Menu size={24} />
+          </button>
+        )}
+        <h1 className="text-xl font-semibold">
           <Link to="/" className="text-white hover:text-cyan-400 transition-colors">
             WrkBench
           </Link>
         </h1>
+        {user && (
+          <div className="ml-auto flex items-center gap-3">
+            <span className="text-sm text-gray-300">{user.username}</span>
+            <button
+              onClick={handleSignOut}
+              className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Sign out"
+              title="Sign out"
+            >
+              <LogOut size={20} />
+            </button>
+          </div>
+        )}
       </header>
 
       <aside
@@ -65,7 +161,110 @@ export default function Header() {
             <span className="font-medium">Home</span>
           </Link>
 
-    
+          <Link
+            to="/settings"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
+            activeProps={{
+              className:
+                'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
+            }}
+          >
+            <Settings size={20} />
+            <span className="font-medium">Settings</span>
+          </Link>
+
+          {/* Workbenches */}
+          <div className="mt-4">
+            <div className="flex items-center justify-between px-3 mb-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+                Workbenches
+              </span>
+              <button
+                onClick={handleCreate}
+                className="p-1 hover:bg-gray-800 rounded-md transition-colors"
+                aria-label="New workbench"
+                title="New workbench"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+
+            {workbenches.map((workbench) => (
+              <div
+                key={workbench.id}
+                className={`group flex items-center gap-2 p-3 rounded-lg transition-colors mb-1 ${
+                  workbench.id === activeWorkbenchId ? 'bg-cyan-600 hover:bg-cyan-700' : 'hover:bg-gray-800'
+                }`}
+              >
+                <LayoutDashboard size={18} className="flex-shrink-0" />
+                {renamingId === workbench.id ? (
+                  <form
+                    className="flex-1 flex items-center gap-1 min-w-0"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      handleSaveRename()
+                    }}
+                  >
+                    <input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') setRenamingId(null)
+                      }}
+                      className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      className="p-1 hover:bg-gray-700 rounded-md transition-colors"
+                      aria-label="Save name"
+                    >
+                      <Check size={14} />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => openWorkbench(workbench.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="font-medium truncate">{workbench.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {formatLastModified(workbench.updatedAt)}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => handleStartRename(workbench)}
+                        className="p-1 hover:bg-gray-700 rounded-md transition-colors"
+                        aria-label="Rename workbench"
+                        title="Rename"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(workbench.id)}
+                        className="p-1 hover:bg-gray-700 rounded-md transition-colors"
+                        aria-label="Duplicate workbench"
+                        title="Duplicate"
+                      >
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(workbench)}
+                        className="p-1 hover:bg-gray-700 rounded-md transition-colors"
+                        aria-label="Delete workbench"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
         </nav>
       </aside>
     </>
@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+interface JsonTreeProps {
+  value: unknown
+  name?: string
+  depth?: number
+}
+
+// Objects and arrays below this depth start collapsed
+const AUTO_EXPAND_DEPTH = 2
+
+function renderPrimitive(value: unknown) {
+  if (value === null) return <span className="text-gray-400">null</span>
+  if (typeof value === 'string') return <span className="text-green-700 break-all">"{value}"</span>
+  if (typeof value === 'number') return <span className="text-blue-700">{value}</span>
+  if (typeof value === 'boolean') return <span className="text-purple-700">{String(value)}</span>
+  return <span>{String(value)}</span>
+}
+
+export default function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  const [isExpanded, setIsExpanded] = useState(depth < AUTO_EXPAND_DEPTH)
+  const label = name !== undefined && <span className="text-gray-700">{name}: </span>
+
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div className="pl-4 font-mono text-xs leading-5">
+        {label}
+        {renderPrimitive(value)}
+      </div>
+    )
+  }
+
+  const isArray = Array.isArray(value)
+  const entries = isArray ? value.map((item, index) => [String(index), item] as const) : Object.entries(value)
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`
+
+  return (
+    <div className="font-mono text-xs leading-5">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="nodrag flex items-center gap-0.5 hover:bg-gray-100 rounded"
+      >
+        {isExpanded ? <ChevronDown size={12} className="text-gray-400" /> : <ChevronRight size={12} className="text-gray-400" />}
+        {label}
+        <span className="text-gray-400">{summary}</span>
+      </button>
+      {isExpanded && (
+        <div className="ml-2 border-l border-gray-200">
+          {entries.map(([key, item]) => (
+            <JsonTree key={key} name={key} value={item} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { AlertTriangle, Play, RotateCcw, Scissors, Square } from 'lucide-react'
+import type { Message } from '../lib/chatTypes'
+
+interface MessageStatusProps {
+  message: Message
+  disabled?: boolean
+  // Ask again in a new branch; the interrupted reply is kept as it is
+  onRetry?: () => void
+  // Stream more text into the interrupted reply
+  onContinue?: () => void
+}
+
+// Inline note under an assistant reply that did not finish normally
+export default function MessageStatus({ message, disabled, onRetry, onContinue }: MessageStatusProps) {
+  const actions = (onRetry || onContinue) && (
+    <span className="ml-auto flex items-center gap-1 flex-shrink-0">
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className="nodrag px-2 py-0.5 rounded bg-white/70 hover:bg-white flex items-center gap-1 font-medium disabled:opacity-40"
+          title="Ask again in a new branch"
+        >
+          <RotateCcw size={12} />
+          Retry
+        </button>
+      )}
+      {onContinue && message.content && (
+        <button
+          onClick={onContinue}
+          disabled={disabled}
+          className="nodrag px-2 py-0.5 rounded bg-white/70 hover:bg-white flex items-center gap-1 font-medium disabled:opacity-40"
+          title="Continue from where the reply stopped"
+        >
+          <Play size={12} />
+          Continue
+        </button>
+      )}
+    </span>
+  )
+
+  if (message.error) {
+    return (
+      <div className="not-prose mt-3 flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+        <span>{message.content ? 'Response interrupted' : 'Request failed'}: {message.error}</span>
+        {actions}
+      </div>
+    )
+  }
+
+  if (message.truncated) {
+    return (
+      <div className="not-prose mt-3 flex items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600">
+        <Square size={12} className="flex-shrink-0" />
+        <span>Truncated: generation was stopped before the reply finished</span>
+        {actions}
+      </div>
+    )
+  }
+
+  if (message.finishReason === 'length') {
+    return (
+      <div className="not-prose mt-3 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+        <Scissors size={14} className="flex-shrink-0" />
+        <span>Truncated: the model reached its maximum output length</span>
+        {actions}
+      </div>
+    )
+  }
+
+  if (message.finishReason === 'content_filter') {
+    return (
+      <div className="not-prose mt-3 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+        <AlertTriangle size={14} className="flex-shrink-0" />
+        <span>Stopped by the provider's content filter</span>
+      </div>
+    )
+  }
+
+  return null
+}
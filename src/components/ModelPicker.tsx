@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useState } from 'react'
+import { liveQuery } from 'dexie'
+import { ChevronDown, ChevronUp, Image, RefreshCw, Search, Star } from 'lucide-react'
+import { listFavoriteModels, toggleFavoriteModel } from '../lib/db'
+import {
+  formatContextLength,
+  formatPricePerMillion,
+  getModelLabel,
+  type ModelInfo,
+} from '../lib/modelCatalog'
+
+interface ModelPickerProps {
+  value: string
+  models: ModelInfo[]
+  isLoading: boolean
+  error: string | null
+  onChange: (modelId: string) => void
+  onRefresh: () => void
+  // Shown instead of a model name when nothing is selected
+  placeholder?: string
+}
+
+// Rendering thousands of rows inside a node is slow; search narrows it down
+const MAX_RESULTS = 100
+
+export default function ModelPicker({ value, models, isLoading, error, onChange, onRefresh, placeholder }: ModelPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const [favorites, setFavorites] = useState<string[]>([])
+
+  useEffect(() => {
+    const subscription = liveQuery(() => listFavoriteModels()).subscribe({
+      next: setFavorites,
+      error: (err) => console.error('Failed to list favorite models:', err),
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const { favoriteModels, otherModels } = useMemo(() => {
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean)
+    const matches = models.filter((model) => {
+      const haystack = `${model.name} ${model.id}`.toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+    const favoriteSet = new Set(favorites)
+    return {
+      favoriteModels: matches.filter((model) => favoriteSet.has(model.id)),
+      otherModels: matches.filter((model) => !favoriteSet.has(model.id)),
+    }
+  }, [models, favorites, search])
+
+  const handleSelect = (modelId: string) => {
+    onChange(modelId)
+    setIsOpen(false)
+    setSearch('')
+  }
+
+  const renderModel = (model: ModelInfo) => {
+    const isFavorite = favorites.includes(model.id)
+    return (
+      <div
+        key={model.id}
+        className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer ${
+          model.id === value ? 'bg-purple-100' : 'hover:bg-purple-50'
+        }`}
+        onClick={() => handleSelect(model.id)}
+        title={model.description}
+      >
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            toggleFavoriteModel(model.id)
+          }}
+          className="p-0.5 rounded hover:bg-white transition-colors flex-shrink-0"
+          aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <Star size={12} className={isFavorite ? 'text-amber-500 fill-amber-400' : 'text-gray-400'} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-gray-800 truncate">{model.name}</p>
+          <p className="text-[10px] font-mono text-gray-500 truncate">{model.id}</p>
+        </div>
+        {model.inputModalities.includes('image') && (
+          <Image size={12} className="text-gray-400 flex-shrink-0" aria-label="Accepts images" />
+        )}
+        <div className="text-right text-[10px] text-gray-500 flex-shrink-0">
+          <p>{formatContextLength(model.contextLength)} ctx</p>
+          <p>
+            {formatPricePerMillion(model.pricing.prompt)} / {formatPricePerMillion(model.pricing.completion)}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const visibleOthers = otherModels.slice(0, MAX_RESULTS)
+
+  return (
+    <div className="nodrag">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-purple-100 transition-all flex items-center justify-between gap-2"
+      >
+        <span className={`truncate ${value ? '' : 'text-gray-400'}`}>{value ? getModelLabel(value, models) : placeholder}</span>
+        {isOpen ? <ChevronUp size={14} className="text-purple-600" /> : <ChevronDown size={14} className="text-purple-600" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-white rounded-lg border border-purple-100 p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 rounded border border-gray-300 px-2 focus-within:ring-2 focus-within:ring-purple-500">
+              <Search size={12} className="text-gray-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search models..."
+                className="flex-1 min-w-0 py-1 text-xs focus:outline-none"
+                autoFocus
+              />
+            </div>
+            <button
+              onClick={onRefresh}
+              disabled={isLoading}
+              className="p-1.5 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+              aria-label="Refresh model list"
+              title="Refresh model list"
+            >
+              <RefreshCw size={12} className={`text-gray-500 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600">Couldn't load models: {error}</p>}
+
+          <div
+            className="nowheel max-h-64 overflow-y-auto space-y-0.5"
+            onWheel={(e) => e.stopPropagation()}
+          >
+            {isLoading && models.length === 0 ? (
+              <p className="text-xs text-gray-500 px-2 py-1">Loading models...</p>
+            ) : (
+              <>
+                {favoriteModels.length > 0 && (
+                  <>
+                    <p className="text-[10px] font-semibold uppercase tracking-wide text-gray-400 px-2 pt-1">Favorites</p>
+                    {favoriteModels.map(renderModel)}
+                    <div className="border-t border-gray-100 my-1"></div>
+                  </>
+                )}
+                {visibleOthers.map(renderModel)}
+                {otherModels.length > MAX_RESULTS && (
+                  <p className="text-[10px] text-gray-400 px-2 py-1">
+                    {otherModels.length - MAX_RESULTS} more - refine the search to see them
+                  </p>
+                )}
+                {favoriteModels.length === 0 && otherModels.length === 0 && (
+                  <p className="text-xs text-gray-500 px-2 py-1">No models match "{search}"</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
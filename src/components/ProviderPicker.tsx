@@ -0,0 +1,33 @@
+import { PROVIDERS, type ProviderId } from '../lib/providers'
+
+interface ProviderPickerProps {
+  value: ProviderId
+  disabled?: boolean
+  onChange: (provider: ProviderId) => void
+}
+
+// Which backend a node's requests go to; the model picker lists that provider's models
+export default function ProviderPicker({ value, disabled, onChange }: ProviderPickerProps) {
+  const selected = PROVIDERS.find((provider) => provider.id === value)
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-gray-700 mb-2 block">
+        Provider
+      </label>
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value as ProviderId)}
+        className="nodrag w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+      >
+        {PROVIDERS.map((provider) => (
+          <option key={provider.id} value={provider.id}>
+            {provider.label}
+          </option>
+        ))}
+      </select>
+      {selected && <p className="mt-1 text-[11px] text-gray-500">{selected.description}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { Brain, ChevronDown, ChevronUp } from 'lucide-react'
+
+interface ReasoningBlockProps {
+  reasoning: string
+  // Keep the block open while reasoning is still streaming in
+  isStreaming?: boolean
+}
+
+export default function ReasoningBlock({ reasoning, isStreaming }: ReasoningBlockProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const showReasoning = isExpanded || isStreaming
+
+  return (
+    <div className="nodrag not-prose mb-3 rounded-lg border border-gray-200 bg-gray-50 text-gray-600">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-1.5 flex items-center justify-between hover:bg-gray-100 transition-colors rounded-lg"
+      >
+        <span className="flex items-center gap-2 text-xs font-medium">
+          <Brain size={14} className="text-gray-500" />
+          {isStreaming ? 'Thinking...' : 'Reasoning'}
+        </span>
+        {showReasoning ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+      {showReasoning && (
+        <p className="px-3 pb-3 text-xs leading-relaxed whitespace-pre-wrap select-text">
+          {reasoning}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { Reply, X } from 'lucide-react'
+import type { Message } from '../lib/chatTypes'
+
+interface ReplyPreviewProps {
+  replyingTo: Message[]
+  onRemove: (messageId: string) => void
+  onClear: () => void
+}
+
+// Messages the next send will quote, shown above the input
+export default function ReplyPreview({ replyingTo, onRemove, onClear }: ReplyPreviewProps) {
+  if (replyingTo.length === 0) return null
+
+  return (
+    <div className="mb-3 p-2 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <Reply size={14} className="text-purple-600 flex-shrink-0" />
+          <p className="text-xs font-medium text-purple-600">
+            {replyingTo.length === 1
+              ? `Replying to ${replyingTo[0].role === 'user' ? 'yourself' : 'AI'}`
+              : `Replying to ${replyingTo.length} messages`}
+          </p>
+        </div>
+        <button
+          onClick={onClear}
+          className="p-1 hover:bg-gray-200 rounded-md transition-colors ml-2 flex-shrink-0"
+          aria-label="Cancel reply"
+        >
+          <X size={14} className="text-gray-500" />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {replyingTo.map((message) => (
+          <div key={message.id} className="flex items-start gap-2 pl-3 border-l-2 border-purple-200">
+            <p className="flex-1 min-w-0 text-xs text-gray-600 line-clamp-2">
+              {replyingTo.length > 1 && (
+                <span className="font-medium">{message.role === 'user' ? 'You' : 'AI'}: </span>
+              )}
+              {message.content}
+            </p>
+            {replyingTo.length > 1 && (
+              <button
+                onClick={() => onRemove(message.id)}
+                className="p-0.5 hover:bg-gray-200 rounded transition-colors flex-shrink-0"
+                aria-label="Remove quote"
+              >
+                <X size={12} className="text-gray-400" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
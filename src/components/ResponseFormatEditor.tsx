@@ -0,0 +1,71 @@
+import { parseJsonSchema, type ResponseFormatMode, type ResponseFormatSettings } from '../lib/responseFormat'
+import { supportsParameter, type ModelInfo } from '../lib/modelCatalog'
+
+interface ResponseFormatEditorProps {
+  value: ResponseFormatSettings
+  model: ModelInfo | undefined
+  onChange: (value: ResponseFormatSettings) => void
+}
+
+const MODES: { mode: ResponseFormatMode; label: string }[] = [
+  { mode: 'text', label: 'Text' },
+  { mode: 'json', label: 'JSON' },
+  { mode: 'schema', label: 'JSON Schema' },
+]
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "name": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["name", "tags"],
+  "additionalProperties": false
+}`
+
+export default function ResponseFormatEditor({ value, model, onChange }: ResponseFormatEditorProps) {
+  const supportsJson = supportsParameter(model, 'response_format')
+  const supportsSchema = supportsParameter(model, 'structured_outputs')
+  const schemaError = value.mode === 'schema' ? parseJsonSchema(value.schema).error : undefined
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-gray-700 mb-2 block">Response format</label>
+      <div className="flex gap-2">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...value, mode, schema: mode === 'schema' && !value.schema ? EXAMPLE_SCHEMA : value.schema })}
+            className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-all ${
+              value.mode === mode
+                ? 'bg-purple-600 text-white shadow-sm'
+                : 'bg-white text-gray-600 hover:bg-purple-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {value.mode !== 'text' && !supportsJson && (
+        <p className="text-[10px] text-amber-700 mt-1">This model doesn't advertise JSON mode; replies are still validated.</p>
+      )}
+      {value.mode === 'schema' && supportsJson && !supportsSchema && (
+        <p className="text-[10px] text-amber-700 mt-1">No strict schema support: sent as JSON mode and validated against the schema.</p>
+      )}
+
+      {value.mode === 'schema' && (
+        <div className="mt-2">
+          <textarea
+            value={value.schema}
+            onChange={(e) => onChange({ ...value, schema: e.target.value })}
+            className="nodrag nowheel w-full h-32 resize-none rounded border border-gray-300 bg-white px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+            onWheel={(e) => e.stopPropagation()}
+            spellCheck={false}
+          />
+          {schemaError && <p className="text-[10px] text-red-600 mt-0.5">{schemaError}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
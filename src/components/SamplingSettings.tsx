@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, RotateCcw } from 'lucide-react'
+import { supportsParameter, type ModelInfo } from '../lib/modelCatalog'
+import {
+  NUMERIC_SAMPLING_FIELDS,
+  countCustomSampling,
+  parseLogitBias,
+  validateNumericSampling,
+  type NumericSamplingField,
+  type SamplingParams,
+} from '../lib/sampling'
+
+interface SamplingSettingsProps {
+  sampling: SamplingParams
+  model: ModelInfo | undefined
+  onChange: (sampling: SamplingParams) => void
+  // Clears every parameter, temperature included
+  onReset: () => void
+}
+
+export default function SamplingSettings({ sampling, model, onChange, onReset }: SamplingSettingsProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  // Inputs are edited as text and only committed once they validate
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const maxTokensLimit = model?.maxCompletionTokens || model?.contextLength
+  const customCount = countCustomSampling(sampling)
+
+  const setDraft = (key: string, text: string, error: string | null) => {
+    setDrafts((prev) => ({ ...prev, [key]: text }))
+    setErrors((prev) => ({ ...prev, [key]: error || '' }))
+  }
+
+  const handleNumberChange = (field: NumericSamplingField, text: string) => {
+    if (!text.trim()) {
+      setDraft(field.key, text, null)
+      onChange({ ...sampling, [field.key]: undefined })
+      return
+    }
+    const value = Number(text)
+    const error = validateNumericSampling(field, value, maxTokensLimit)
+    setDraft(field.key, text, error)
+    if (!error) onChange({ ...sampling, [field.key]: value })
+  }
+
+  const handleStopChange = (text: string) => {
+    setDraft('stop', text, null)
+    const stop = text.split('\n').filter((sequence) => sequence.length > 0)
+    onChange({ ...sampling, stop: stop.length > 0 ? stop : undefined })
+  }
+
+  const handleLogitBiasChange = (text: string) => {
+    if (!text.trim()) {
+      setDraft('logitBias', text, null)
+      onChange({ ...sampling, logitBias: undefined })
+      return
+    }
+    try {
+      const logitBias = parseLogitBias(text)
+      setDraft('logitBias', text, null)
+      onChange({ ...sampling, logitBias })
+    } catch (error) {
+      setDraft('logitBias', text, (error as Error).message)
+    }
+  }
+
+  const handleReset = () => {
+    setDrafts({})
+    setErrors({})
+    onReset()
+  }
+
+  const unsupportedTitle = 'Not supported by this model'
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-purple-700 transition-colors"
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          Sampling parameters
+          {customCount > 0 && (
+            <span className="ml-1 text-[10px] font-medium text-purple-700 bg-white px-1.5 py-0.5 rounded">
+              {customCount} set
+            </span>
+          )}
+        </button>
+        <button
+          onClick={handleReset}
+          className="px-2 py-0.5 text-xs font-medium text-purple-700 bg-white hover:bg-purple-100 rounded flex items-center gap-1 transition-colors"
+          title="Reset temperature and all sampling parameters to the provider defaults"
+        >
+          <RotateCcw size={12} />
+          Reset
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {NUMERIC_SAMPLING_FIELDS.map((field) => {
+              const isSupported = supportsParameter(model, field.parameter)
+              const value = sampling[field.key]
+              return (
+                <div key={field.key} className={isSupported ? '' : 'opacity-50'} title={isSupported ? undefined : unsupportedTitle}>
+                  <label className="block text-[11px] text-gray-600 mb-0.5">{field.label}</label>
+                  <input
+                    type="number"
+                    value={drafts[field.key] ?? (value === undefined ? '' : String(value))}
+                    onChange={(e) => handleNumberChange(field, e.target.value)}
+                    min={field.minExclusive ? undefined : field.min}
+                    max={field.key === 'maxTokens' ? maxTokensLimit || undefined : field.max}
+                    step={field.step}
+                    placeholder="default"
+                    disabled={!isSupported}
+                    className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                  />
+                  {errors[field.key] ? (
+                    <p className="text-[10px] text-red-600 mt-0.5">{errors[field.key]}</p>
+                  ) : (
+                    <p className="text-[10px] text-gray-400 mt-0.5">{field.hint}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className={supportsParameter(model, 'stop') ? '' : 'opacity-50'} title={supportsParameter(model, 'stop') ? undefined : unsupportedTitle}>
+            <label className="block text-[11px] text-gray-600 mb-0.5">Stop sequences (one per line)</label>
+            <textarea
+              value={drafts.stop ?? (sampling.stop || []).join('\n')}
+              onChange={(e) => handleStopChange(e.target.value)}
+              disabled={!supportsParameter(model, 'stop')}
+              className="nodrag nowheel w-full h-14 resize-none rounded border border-gray-300 bg-white px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100"
+              onWheel={(e) => e.stopPropagation()}
+            />
+          </div>
+
+          <div className={supportsParameter(model, 'logit_bias') ? '' : 'opacity-50'} title={supportsParameter(model, 'logit_bias') ? undefined : unsupportedTitle}>
+            <label className="block text-[11px] text-gray-600 mb-0.5">Logit bias</label>
+            <textarea
+              value={drafts.logitBias ?? (sampling.logitBias ? JSON.stringify(sampling.logitBias) : '')}
+              onChange={(e) => handleLogitBiasChange(e.target.value)}
+              placeholder='{"50256": -100}'
+              disabled={!supportsParameter(model, 'logit_bias')}
+              className="nodrag nowheel w-full h-14 resize-none rounded border border-gray-300 bg-white px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100"
+              onWheel={(e) => e.stopPropagation()}
+            />
+            {errors.logitBias ? (
+              <p className="text-[10px] text-red-600 mt-0.5">{errors.logitBias}</p>
+            ) : (
+              <p className="text-[10px] text-gray-400 mt-0.5">Token id → bias in [-100, 100]</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { AlertTriangle, Braces, CheckCircle2, Code } from 'lucide-react'
+import type { Message } from '../lib/chatTypes'
+import { extractJson } from '../lib/responseFormat'
+import JsonTree from './JsonTree'
+
+interface StructuredReplyProps {
+  message: Message
+}
+
+function tryParse(content: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(extractJson(content)) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+// A JSON reply shown as a collapsible tree, with the validation result
+export default function StructuredReply({ message }: StructuredReplyProps) {
+  const [showRaw, setShowRaw] = useState(false)
+  const validation = message.jsonValidation!
+  const parsed = tryParse(message.content)
+
+  return (
+    <div className="not-prose">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        {validation.valid ? (
+          <span className="flex items-center gap-1 text-xs font-medium text-green-700">
+            <CheckCircle2 size={14} />
+            Valid JSON
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-700">
+            <AlertTriangle size={14} />
+            {validation.errors.length} validation error{validation.errors.length === 1 ? '' : 's'}
+          </span>
+        )}
+        {parsed.ok && (
+          <button
+            onClick={() => setShowRaw(!showRaw)}
+            className="nodrag flex items-center gap-1 px-2 py-0.5 text-[11px] text-gray-600 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+          >
+            {showRaw ? <Braces size={12} /> : <Code size={12} />}
+            {showRaw ? 'Tree' : 'Raw'}
+          </button>
+        )}
+      </div>
+
+      {!validation.valid && (
+        <ul className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 space-y-0.5">
+          {validation.errors.map((error) => (
+            <li key={error} className="font-mono break-all">{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {parsed.ok && !showRaw ? (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 px-2 py-1 overflow-x-auto select-text">
+          <JsonTree value={parsed.value} />
+        </div>
+      ) : (
+        <pre className="rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs font-mono whitespace-pre-wrap break-all select-text">
+          {message.content}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react'
+import { liveQuery } from 'dexie'
+import { BookmarkPlus, Check, Trash2, X } from 'lucide-react'
+import {
+  createPromptPreset,
+  deletePromptPreset,
+  listPromptPresets,
+  type PromptPresetRecord,
+} from '../lib/db'
+
+interface SystemPromptEditorProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+export default function SystemPromptEditor({ value, onChange }: SystemPromptEditorProps) {
+  const [presets, setPresets] = useState<PromptPresetRecord[]>([])
+  const [isNaming, setIsNaming] = useState(false)
+  const [presetName, setPresetName] = useState('')
+
+  // The preset library is shared by every node and workbench
+  useEffect(() => {
+    const subscription = liveQuery(() => listPromptPresets()).subscribe({
+      next: setPresets,
+      error: (error) => console.error('Failed to list prompt presets:', error),
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const activePreset = presets.find((preset) => preset.content === value)
+
+  const handleSavePreset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!presetName.trim() || !value.trim()) return
+    try {
+      await createPromptPreset(presetName.trim(), value)
+      setIsNaming(false)
+      setPresetName('')
+    } catch (error) {
+      console.error('Failed to save prompt preset:', error)
+    }
+  }
+
+  const handleDeletePreset = async (preset: PromptPresetRecord) => {
+    if (!confirm(`Delete the preset "${preset.name}"? Nodes using it keep their prompt.`)) return
+    try {
+      await deletePromptPreset(preset.id)
+    } catch (error) {
+      console.error('Failed to delete prompt preset:', error)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <label className="text-xs font-medium text-gray-700">System prompt</label>
+        <div className="flex items-center gap-1">
+          <select
+            value={activePreset?.id || ''}
+            onChange={(e) => {
+              const preset = presets.find((p) => p.id === e.target.value)
+              if (preset) onChange(preset.content)
+            }}
+            className="max-w-[160px] rounded border border-gray-300 bg-white px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="" disabled>
+              {value.trim() ? 'Custom' : 'Apply preset...'}
+            </option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          {activePreset ? (
+            <button
+              onClick={() => handleDeletePreset(activePreset)}
+              className="p-1 hover:bg-purple-100 rounded-md transition-colors"
+              aria-label="Delete preset"
+              title={`Delete the "${activePreset.name}" preset`}
+            >
+              <Trash2 size={12} className="text-gray-500" />
+            </button>
+          ) : (
+            <button
+              onClick={() => setIsNaming(true)}
+              disabled={!value.trim()}
+              className="p-1 hover:bg-purple-100 rounded-md transition-colors disabled:opacity-40"
+              aria-label="Save as preset"
+              title="Save this prompt as a preset"
+            >
+              <BookmarkPlus size={12} className="text-purple-700" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isNaming && (
+        <form onSubmit={handleSavePreset} className="flex items-center gap-1 mb-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setIsNaming(false)
+            }}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!presetName.trim()}
+            className="p-1 hover:bg-purple-100 rounded-md transition-colors disabled:opacity-40"
+            aria-label="Save preset"
+          >
+            <Check size={12} className="text-purple-700" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsNaming(false)}
+            className="p-1 hover:bg-purple-100 rounded-md transition-colors"
+            aria-label="Cancel"
+          >
+            <X size={12} className="text-gray-500" />
+          </button>
+        </form>
+      )}
+
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Instructions sent before the conversation, e.g. 'You are a helpful code reviewer'"
+        className="nodrag nowheel w-full h-20 resize-none rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+        onWheel={(e) => e.stopPropagation()}
+      />
+    </div>
+  )
+}
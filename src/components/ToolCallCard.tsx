@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { Wrench, Check, ChevronDown, ChevronUp } from 'lucide-react'
+import type { ToolCall } from '../lib/chatTypes'
+
+interface ToolCallCardProps {
+  toolCall: ToolCall
+  // Content of the matching tool message, once one exists
+  result?: string
+  disabled?: boolean
+  onSubmitResult: (toolCall: ToolCall, result: string) => void
+}
+
+function formatArguments(rawArguments: string) {
+  try {
+    return JSON.stringify(JSON.parse(rawArguments), null, 2)
+  } catch {
+    // Still streaming, or the model produced invalid JSON
+    return rawArguments
+  }
+}
+
+export default function ToolCallCard({ toolCall, result, disabled, onSubmitResult }: ToolCallCardProps) {
+  const [draft, setDraft] = useState('')
+  const [isExpanded, setIsExpanded] = useState(result === undefined)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.trim()) return
+    onSubmitResult(toolCall, draft.trim())
+    setDraft('')
+  }
+
+  return (
+    <div className="nodrag mt-3 rounded-lg border border-indigo-200 bg-indigo-50/60 text-gray-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-2 flex items-center justify-between hover:bg-indigo-100/50 transition-colors rounded-lg"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <Wrench size={14} className="text-indigo-600 flex-shrink-0" />
+          <span className="text-xs font-mono font-medium text-indigo-700 truncate">
+            {toolCall.name || 'tool'}()
+          </span>
+          {result !== undefined ? (
+            <span className="flex items-center gap-1 text-xs text-green-700">
+              <Check size={12} />
+              Result provided
+            </span>
+          ) : (
+            <span className="text-xs text-amber-600">Awaiting result</span>
+          )}
+        </div>
+        {isExpanded ? (
+          <ChevronUp size={14} className="text-indigo-600" />
+        ) : (
+          <ChevronDown size={14} className="text-indigo-600" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1">Arguments</p>
+            <pre className="text-xs font-mono bg-white border border-indigo-100 rounded p-2 overflow-x-auto whitespace-pre-wrap">
+              {formatArguments(toolCall.arguments) || '{}'}
+            </pre>
+          </div>
+
+          {result !== undefined ? (
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">Result</p>
+              <pre className="text-xs font-mono bg-white border border-indigo-100 rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                {result}
+              </pre>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Enter the tool result..."
+                disabled={disabled}
+                className="nodrag nowheel w-full min-h-[60px] resize-none rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+                onWheel={(e) => e.stopPropagation()}
+              />
+              <button
+                type="submit"
+                disabled={disabled || !draft.trim()}
+                className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-xs font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Submit result
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import type { ToolChoice, ToolDefinition } from '../lib/chatTypes'
+import { getToolHandler } from '../lib/toolHandlers'
+
+interface ToolsEditorProps {
+  tools: ToolDefinition[]
+  toolChoice: ToolChoice
+  onToolsChange: (tools: ToolDefinition[]) => void
+  onToolChoiceChange: (toolChoice: ToolChoice) => void
+  // The selected model can't call tools; definitions are kept but not sent
+  disabled?: boolean
+}
+
+const EMPTY_PARAMETERS = { type: 'object', properties: {} }
+
+export default function ToolsEditor({ tools, toolChoice, onToolsChange, onToolChoiceChange, disabled }: ToolsEditorProps) {
+  // Parameter schemas are edited as text and only committed once they parse
+  const [parameterDrafts, setParameterDrafts] = useState<Record<number, string>>({})
+  const [parameterErrors, setParameterErrors] = useState<Record<number, string>>({})
+
+  const updateTool = (index: number, changes: Partial<ToolDefinition>) => {
+    onToolsChange(tools.map((tool, i) => (i === index ? { ...tool, ...changes } : tool)))
+  }
+
+  const handleAddTool = () => {
+    onToolsChange([...tools, { name: `tool_${tools.length + 1}`, description: '', parameters: EMPTY_PARAMETERS }])
+  }
+
+  const handleRemoveTool = (index: number) => {
+    const removed = tools[index]
+    onToolsChange(tools.filter((_, i) => i !== index))
+    setParameterDrafts({})
+    setParameterErrors({})
+    if (typeof toolChoice === 'object' && toolChoice.name === removed.name) {
+      onToolChoiceChange('auto')
+    }
+  }
+
+  const handleParametersChange = (index: number, text: string) => {
+    setParameterDrafts((prev) => ({ ...prev, [index]: text }))
+    try {
+      const parsed = JSON.parse(text)
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('Parameters must be a JSON Schema object')
+      }
+      setParameterErrors((prev) => ({ ...prev, [index]: '' }))
+      updateTool(index, { parameters: parsed })
+    } catch (error) {
+      setParameterErrors((prev) => ({ ...prev, [index]: (error as Error).message }))
+    }
+  }
+
+  const toolChoiceValue = typeof toolChoice === 'string' ? toolChoice : `tool:${toolChoice.name}`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-medium text-gray-700">Tools</label>
+        <button
+          onClick={handleAddTool}
+          className="px-2 py-0.5 text-xs font-medium text-purple-700 bg-white hover:bg-purple-100 rounded flex items-center gap-1 transition-colors"
+        >
+          <Plus size={12} />
+          Add tool
+        </button>
+      </div>
+
+      {disabled && (
+        <p className="text-xs text-amber-700 mb-2">This model doesn't support tool calling; tools won't be sent.</p>
+      )}
+
+      {tools.length === 0 ? (
+        <p className="text-xs text-gray-500">No tools defined</p>
+      ) : (
+        <div className="space-y-2">
+          {tools.map((tool, index) => (
+            <div key={index} className="bg-white rounded-lg p-2 border border-purple-100 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <input
+                  value={tool.name}
+                  onChange={(e) => updateTool(index, { name: e.target.value })}
+                  placeholder="function_name"
+                  className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                {getToolHandler(tool.name) && (
+                  <span className="text-[10px] font-medium text-green-700 bg-green-50 px-1.5 py-0.5 rounded" title="Answered automatically by a local handler">
+                    local
+                  </span>
+                )}
+                <button
+                  onClick={() => handleRemoveTool(index)}
+                  className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+                  aria-label="Remove tool"
+                >
+                  <Trash2 size={12} className="text-gray-500" />
+                </button>
+              </div>
+              <input
+                value={tool.description || ''}
+                onChange={(e) => updateTool(index, { description: e.target.value })}
+                placeholder="Description"
+                className="w-full rounded border border-gray-300 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <textarea
+                value={parameterDrafts[index] ?? JSON.stringify(tool.parameters, null, 2)}
+                onChange={(e) => handleParametersChange(index, e.target.value)}
+                placeholder="JSON Schema for the arguments"
+                className="nodrag nowheel w-full h-20 resize-none rounded border border-gray-300 px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                onWheel={(e) => e.stopPropagation()}
+              />
+              {parameterErrors[index] && (
+                <p className="text-xs text-red-600">{parameterErrors[index]}</p>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-gray-600">Tool choice</label>
+            <select
+              value={toolChoiceValue}
+              onChange={(e) => {
+                const value = e.target.value
+                onToolChoiceChange(value.startsWith('tool:') ? { name: value.slice(5) } : (value as 'auto' | 'none'))
+              }}
+              className="rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="auto">Auto</option>
+              <option value="none">None</option>
+              {tools.map((tool, index) => (
+                <option key={index} value={`tool:${tool.name}`}>
+                  Force {tool.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,692 @@
+import { Link } from '@tanstack/react-router'
+import { ReactFlow, Background, Controls, MiniMap, Node, Edge, useNodesState, useEdgesState, addEdge, Connection } from '@xyflow/react'
+import '@xyflow/react/dist/style.css'
+import { useState, useEffect, useRef, useCallback, useMemo, createContext } from 'react'
+import { Plus, Undo2, Redo2, FileText, X, Download, FileDown, FileUp, Coins, RefreshCw } from 'lucide-react'
+import ChatNode from './ChatNode'
+import ContextNode from './ContextNode'
+import ContextEdge from './ContextEdge'
+import { loadWorkbench, saveWorkbench, setWorkbenchBudget, type WorkbenchGraph } from '../lib/db'
+import { markWorkbenchOpen, mergeRemoteChanges, useSyncStatus } from '../lib/syncEngine'
+import { formatCost, formatUsage, getWorkbenchUsage } from '../lib/usage'
+import {
+  WorkbenchFileError,
+  downloadWorkbenchFile,
+  exportWorkbenchFile,
+  instantiateWorkbenchFile,
+  parseWorkbenchFile,
+} from '../lib/workbenchFile'
+import { createForkEdge } from '../lib/fork'
+
+interface LogEntry {
+  timestamp: string
+  action: string
+  details: string
+}
+
+export const LogContext = createContext<{
+  addLog: (action: string, details: string) => void
+}>({
+  addLog: () => {},
+})
+
+// Spending limit for the open workbench, checked by chat nodes before sending
+export const BudgetContext = createContext<{
+  budget?: number
+}>({})
+
+// Lets a chat node spawn a connected copy of itself
+export const ForkContext = createContext<{
+  forkChatNode: (sourceId: string, data: Record<string, unknown>) => void
+}>({
+  forkChatNode: () => {},
+})
+
+const nodeTypes = {
+  chatNode: ChatNode,
+  contextNode: ContextNode,
+}
+
+// Every edge uses ContextEdge so connections saved before per-edge settings get labels too
+const edgeTypes = {
+  default: ContextEdge,
+}
+
+interface HistoryState {
+  nodes: Node[]
+  edges: Edge[]
+}
+
+interface WorkbenchProps {
+  workbenchId: string
+}
+
+export default function Workbench({ workbenchId }: WorkbenchProps) {
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([])
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([])
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const nodeIdCounter = useRef(2) // Replaced by the saved counter on restore
+
+  // History management
+  const [history, setHistory] = useState<HistoryState[]>([{ nodes: [], edges: [] }])
+  const [historyIndex, setHistoryIndex] = useState(0)
+  const isUndoRedoAction = useRef(false)
+
+  // Persistence - the canvas is only rendered once the saved graph has been restored
+  const [isRestored, setIsRestored] = useState(false)
+  const [isMissing, setIsMissing] = useState(false)
+  const [workbenchName, setWorkbenchName] = useState('Workbench')
+  const pendingSaveRef = useRef<WorkbenchGraph | null>(null)
+
+  // Logging
+  const [logs, setLogs] = useState<LogEntry[]>([])
+  const [isLogOpen, setIsLogOpen] = useState(false)
+
+  // Usage and budget
+  const [budget, setBudget] = useState<number | undefined>(undefined)
+  const [isBudgetOpen, setIsBudgetOpen] = useState(false)
+  const [budgetDraft, setBudgetDraft] = useState('')
+  const usage = useMemo(() => getWorkbenchUsage(nodes), [nodes])
+  const isOverBudget = budget !== undefined && usage.cost >= budget
+
+  // Export / import
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<{ message: string; issues: string[] } | null>(null)
+
+  const addLog = useCallback((action: string, details: string) => {
+    const timestamp = new Date().toLocaleString()
+    setLogs((prev) => [...prev, { timestamp, action, details }])
+  }, [])
+
+  const downloadLogs = useCallback(() => {
+    const logText = logs
+      .map((log) => `[${log.timestamp}] ${log.action}: ${log.details}`)
+      .join('\n')
+    const blob = new Blob([logText], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `wrkbench-logs-${new Date().toISOString()}.txt`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+    addLog('Action', 'Logs downloaded')
+  }, [logs, addLog])
+
+  // Restore the saved canvas from IndexedDB on load
+  useEffect(() => {
+    let cancelled = false
+
+    loadWorkbench(workbenchId)
+      .then((record) => {
+        if (cancelled) return
+        if (!record) {
+          setIsMissing(true)
+          return
+        }
+        isUndoRedoAction.current = true
+        setNodes(record.nodes)
+        setEdges(record.edges)
+        nodeIdCounter.current = record.nodeIdCounter
+        setWorkbenchName(record.name)
+        setBudget(record.budget)
+        setHistory([{ nodes: record.nodes, edges: record.edges }])
+        setHistoryIndex(0)
+        addLog('Workbench Restored', `${record.name}: ${record.nodes.length} nodes, ${record.edges.length} connections`)
+        setIsRestored(true)
+      })
+      .catch((error) => {
+        console.error('Failed to restore workbench:', error)
+        addLog('Error', `Failed to restore workbench - ${error}`)
+        if (!cancelled) setIsMissing(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [workbenchId, setNodes, setEdges, addLog])
+
+  const flushSave = useCallback(async () => {
+    const graph = pendingSaveRef.current
+    if (!graph) return
+    pendingSaveRef.current = null
+
+    await saveWorkbench(workbenchId, graph).catch((error) => {
+      console.error('Failed to save workbench:', error)
+      addLog('Error', `Failed to save workbench - ${error}`)
+    })
+  }, [workbenchId, addLog])
+
+  // Save the canvas to IndexedDB shortly after it stops changing
+  useEffect(() => {
+    if (!isRestored) return
+
+    pendingSaveRef.current = { nodes, edges, nodeIdCounter: nodeIdCounter.current }
+    const timeout = setTimeout(flushSave, 500)
+
+    return () => clearTimeout(timeout)
+  }, [nodes, edges, isRestored, flushSave])
+
+  // Don't lose the last edits when switching to another workbench
+  useEffect(() => {
+    return () => {
+      flushSave()
+    }
+  }, [flushSave])
+
+  // Edits from other devices are only merged when the user loads them
+  useEffect(() => markWorkbenchOpen(workbenchId), [workbenchId])
+  const hasRemoteChanges = useSyncStatus().remoteChanges.includes(workbenchId)
+  const [isLoadingRemoteChanges, setIsLoadingRemoteChanges] = useState(false)
+
+  const handleLoadRemoteChanges = useCallback(async () => {
+    setIsLoadingRemoteChanges(true)
+    try {
+      await flushSave()
+      await mergeRemoteChanges(workbenchId)
+      // Restore the merged canvas from scratch
+      window.location.reload()
+    } catch (error) {
+      console.error('Failed to load remote changes:', error)
+      addLog('Error', `Failed to load remote changes - ${error}`)
+      setIsLoadingRemoteChanges(false)
+    }
+  }, [workbenchId, flushSave, addLog])
+
+  const handleSaveBudget = useCallback(async (value: number | undefined) => {
+    try {
+      await setWorkbenchBudget(workbenchId, value)
+      setBudget(value)
+      setIsBudgetOpen(false)
+      addLog('Action', value === undefined ? 'Workbench budget removed' : `Workbench budget set to ${formatCost(value)}`)
+    } catch (error) {
+      console.error('Failed to save budget:', error)
+      addLog('Error', `Failed to save budget - ${error}`)
+    }
+  }, [workbenchId, addLog])
+
+  const handleExport = useCallback(() => {
+    try {
+      downloadWorkbenchFile(exportWorkbenchFile(workbenchName, nodes, edges))
+      addLog('Action', `Workbench exported (${nodes.length} nodes, ${edges.length} connections)`)
+    } catch (error) {
+      console.error('Failed to export workbench:', error)
+      addLog('Error', `Failed to export workbench - ${error}`)
+    }
+  }, [workbenchName, nodes, edges, addLog])
+
+  // Imported nodes are added to the current canvas under fresh IDs
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      const workbenchFile = parseWorkbenchFile(await file.text())
+      const imported = instantiateWorkbenchFile(workbenchFile, nodeIdCounter.current)
+      nodeIdCounter.current = imported.nodeIdCounter
+      setNodes((nds) => [...nds, ...imported.nodes])
+      setEdges((eds) => [...eds, ...imported.edges])
+      addLog(
+        'Workbench Imported',
+        `${file.name}: ${imported.nodes.length} nodes, ${imported.edges.length} connections from "${workbenchFile.workbench.name}"`
+      )
+    } catch (error) {
+      console.error('Failed to import workbench:', error)
+      addLog('Error', `Failed to import ${file.name} - ${error}`)
+      setImportError(
+        error instanceof WorkbenchFileError
+          ? { message: error.message, issues: error.issues }
+          : { message: `Could not read ${file.name}`, issues: [] }
+      )
+    }
+  }, [setNodes, setEdges, addLog])
+
+  const handleAddNode = useCallback((type: string) => {
+    const nodeId = `node-${nodeIdCounter.current++}`
+
+    // Calculate position - center of viewport with slight offset for each new node
+    const centerX = window.innerWidth / 2 - 200 // Offset for node width
+    const centerY = window.innerHeight / 2 - 150 // Offset for node height
+    const offset = (nodeIdCounter.current - 2) * 50 // Stagger new nodes
+
+    const newNode: Node = {
+      id: nodeId,
+      type: type === 'context' ? 'contextNode' : 'chatNode',
+      position: { x: centerX + offset, y: centerY + offset },
+      data: {
+        label: type === 'context' ? 'Context' : 'Chat',
+      },
+      style: type === 'context' ? undefined : { width: 600, height: 600 },
+    }
+
+    const nodeType = type === 'context' ? 'Context Node' : 'Chat Node'
+    addLog('Node Created', `${nodeType} (ID: ${nodeId})`)
+
+    setNodes((nds) => [...nds, newNode])
+    setIsMenuOpen(false)
+  }, [setNodes, addLog])
+
+  // Place the fork to the right of its source and link them with a fork edge
+  const handleForkChatNode = useCallback((sourceId: string, data: Record<string, unknown>) => {
+    const nodeId = `node-${nodeIdCounter.current++}`
+
+    setNodes((nds) => {
+      const source = nds.find((node) => node.id === sourceId)
+      if (!source) return nds
+      const width = source.measured?.width ?? 600
+      const newNode: Node = {
+        id: nodeId,
+        type: 'chatNode',
+        position: { x: source.position.x + width + 80, y: source.position.y },
+        data,
+        style: { width, height: source.measured?.height ?? 600 },
+      }
+      return [...nds, newNode]
+    })
+    setEdges((eds) => [...eds, createForkEdge(sourceId, nodeId)])
+    addLog('Chat Forked', `From ${sourceId} into Chat Node (ID: ${nodeId})`)
+  }, [setNodes, setEdges, addLog])
+
+  const onConnect = useCallback(
+    (connection: Connection) => {
+      addLog('Connection Created', `From ${connection.source} to ${connection.target}`)
+      setEdges((eds) => addEdge(connection, eds))
+    },
+    [setEdges, addLog]
+  )
+
+  // Track changes to nodes and edges for history
+  useEffect(() => {
+    if (isUndoRedoAction.current) {
+      isUndoRedoAction.current = false
+      return
+    }
+
+    // Add to history when nodes or edges change
+    setHistory((prev) => {
+      const newHistory = prev.slice(0, historyIndex + 1)
+      newHistory.push({ nodes, edges })
+      // Limit history to 50 states
+      return newHistory.slice(-50)
+    })
+    setHistoryIndex((prev) => Math.min(prev + 1, 49))
+  }, [nodes, edges])
+
+  // Track node and edge deletions
+  useEffect(() => {
+    if (isUndoRedoAction.current) return
+
+    const prevState = history[historyIndex]
+    if (!prevState) return
+
+    // Check for deleted nodes
+    const deletedNodes = prevState.nodes.filter(
+      (oldNode) => !nodes.find((n) => n.id === oldNode.id)
+    )
+    deletedNodes.forEach((node) => {
+      addLog('Node Deleted', `${node.type === 'chatNode' ? 'Chat Node' : 'Context Node'} (ID: ${node.id})`)
+    })
+
+    // Check for deleted edges
+    const deletedEdges = prevState.edges.filter(
+      (oldEdge) => !edges.find((e) => e.id === oldEdge.id)
+    )
+    deletedEdges.forEach((edge) => {
+      addLog('Connection Removed', `From ${edge.source} to ${edge.target}`)
+    })
+  }, [nodes, edges, history, historyIndex, addLog])
+
+  // Undo function
+  const handleUndo = useCallback(() => {
+    if (historyIndex > 0) {
+      addLog('Action', 'Undo')
+      const newIndex = historyIndex - 1
+      const state = history[newIndex]
+      isUndoRedoAction.current = true
+      setNodes(state.nodes)
+      setEdges(state.edges)
+      setHistoryIndex(newIndex)
+    }
+  }, [historyIndex, history, setNodes, setEdges, addLog])
+
+  // Redo function
+  const handleRedo = useCallback(() => {
+    if (historyIndex < history.length - 1) {
+      addLog('Action', 'Redo')
+      const newIndex = historyIndex + 1
+      const state = history[newIndex]
+      isUndoRedoAction.current = true
+      setNodes(state.nodes)
+      setEdges(state.edges)
+      setHistoryIndex(newIndex)
+    }
+  }, [historyIndex, history, setNodes, setEdges, addLog])
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        handleUndo()
+      } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
+        e.preventDefault()
+        handleRedo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false)
+      }
+    }
+
+    if (isMenuOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isMenuOpen])
+
+  return (
+    <LogContext.Provider value={{ addLog }}>
+    <BudgetContext.Provider value={{ budget }}>
+    <ForkContext.Provider value={{ forkChatNode: handleForkChatNode }}>
+      <div className="w-screen h-screen relative">
+        {isMissing ? (
+          <div className="w-full h-full flex flex-col items-center justify-center gap-3">
+            <p className="text-gray-500 text-sm">This workbench doesn't exist or was deleted.</p>
+            <Link to="/" className="text-sm font-medium text-purple-600 hover:text-purple-700">
+              Open your latest workbench
+            </Link>
+          </div>
+        ) : !isRestored ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <p className="text-gray-400 text-sm">Loading workbench...</p>
+          </div>
+        ) : (
+        <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onConnect={onConnect}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        defaultViewport={{ x: 0, y: 0, zoom: 0.75 }}
+        fitViewOptions={{ padding: 0.3, maxZoom: 1 }}
+        minZoom={0.1}
+        maxZoom={2}
+      >
+        <Background />
+        <Controls />
+        <MiniMap />
+      </ReactFlow>
+        )}
+
+      {/* Remote Changes Banner */}
+      {hasRemoteChanges && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 rounded-full border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800 shadow-lg">
+          This workbench was changed on another device.
+          <button
+            onClick={handleLoadRemoteChanges}
+            disabled={isLoadingRemoteChanges}
+            className="flex items-center gap-1 font-medium text-purple-600 hover:text-purple-700 disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={isLoadingRemoteChanges ? 'animate-spin' : ''} />
+            Load changes
+          </button>
+        </div>
+      )}
+
+      {/* Floating Add Button and Logs */}
+      <div className="absolute top-6 right-6 z-10 flex items-center gap-3">
+        {/* Usage / Budget */}
+        <button
+          onClick={() => {
+            setBudgetDraft(budget === undefined ? '' : String(budget))
+            setIsBudgetOpen(true)
+          }}
+          disabled={!isRestored}
+          className={`h-10 px-4 bg-white hover:bg-gray-50 rounded-full shadow-lg hover:shadow-xl transition-all flex items-center gap-2 border text-sm font-medium disabled:opacity-50 ${
+            isOverBudget ? 'border-red-300 text-red-600' : 'border-gray-200 text-gray-700'
+          }`}
+          title={`${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${
+            usage.unpricedCalls > 0 ? ` (${usage.unpricedCalls} calls without cost data)` : ''
+          }`}
+        >
+          <Coins size={16} />
+          {formatUsage(usage)}
+          {budget !== undefined && <span className="text-gray-400">/ {formatCost(budget)}</span>}
+        </button>
+
+        {/* Export / Import Buttons */}
+        <button
+          onClick={handleExport}
+          disabled={!isRestored}
+          className="w-10 h-10 bg-white hover:bg-gray-50 text-gray-700 rounded-full shadow-lg hover:shadow-xl transition-all flex items-center justify-center border border-gray-200 disabled:opacity-50"
+          aria-label="Export workbench"
+          title="Export workbench as JSON"
+        >
+          <FileDown size={18} />
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={!isRestored}
+          className="w-10 h-10 bg-white hover:bg-gray-50 text-gray-700 rounded-full shadow-lg hover:shadow-xl transition-all flex items-center justify-center border border-gray-200 disabled:opacity-50"
+          aria-label="Import workbench"
+          title="Import nodes from a workbench JSON file"
+        >
+          <FileUp size={18} />
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleImportFile(file)
+            e.target.value = ''
+          }}
+        />
+
+        {/* Logs Button */}
+        <button
+          onClick={() => setIsLogOpen(true)}
+          className="w-10 h-10 bg-white hover:bg-gray-50 text-gray-700 rounded-full shadow-lg hover:shadow-xl transition-all flex items-center justify-center border border-gray-200"
+          aria-label="View Logs"
+          title="View Activity Logs"
+        >
+          <FileText size={18} />
+        </button>
+
+        {/* Add Node Button */}
+        <div ref={menuRef}>
+          <button
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="w-12 h-12 bg-purple-600 hover:bg-purple-700 text-white rounded-full shadow-lg hover:shadow-xl transition-all flex items-center justify-center"
+            aria-label="Add node"
+          >
+            <Plus size={24} strokeWidth={2.5} />
+          </button>
+
+        {/* Dropdown Menu */}
+        {isMenuOpen && (
+          <div className="absolute top-14 right-0 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden min-w-[180px] animate-in fade-in slide-in-from-top-2 duration-200">
+            <button
+              onClick={() => handleAddNode('context')}
+              className="w-full px-4 py-3 text-left text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors flex items-center gap-3"
+            >
+              <span className="text-lg">📝</span>
+              <span className="font-medium">Context</span>
+            </button>
+            <div className="border-t border-gray-100"></div>
+            <button
+              onClick={() => handleAddNode('chatNode')}
+              className="w-full px-4 py-3 text-left text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors flex items-center gap-3"
+            >
+              <span className="text-lg">💬</span>
+              <span className="font-medium">Chat Node</span>
+            </button>
+          </div>
+        )}
+        </div>
+      </div>
+
+      {/* Budget Modal */}
+      {isBudgetOpen && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl w-[420px] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-800">Workbench Budget</h2>
+              <button
+                onClick={() => setIsBudgetOpen(false)}
+                className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                const value = parseFloat(budgetDraft)
+                if (Number.isFinite(value) && value > 0) handleSaveBudget(value)
+              }}
+              className="p-6 space-y-4"
+            >
+              <div className="text-sm text-gray-700 space-y-1">
+                <p>Spent so far: <span className="font-medium">{formatCost(usage.cost)}</span></p>
+                <p className="text-xs text-gray-500">
+                  {usage.promptTokens} prompt + {usage.completionTokens} completion tokens
+                  {usage.unpricedCalls > 0 && ` · ${usage.unpricedCalls} calls without cost data`}
+                </p>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Budget (USD)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={budgetDraft}
+                  onChange={(e) => setBudgetDraft(e.target.value)}
+                  placeholder="No limit"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  autoFocus
+                />
+                <p className="mt-1 text-xs text-gray-500">Chat nodes ask for confirmation before a send that would exceed it.</p>
+              </div>
+              <div className="flex justify-end gap-2">
+                {budget !== undefined && (
+                  <button
+                    type="button"
+                    onClick={() => handleSaveBudget(undefined)}
+                    className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    Remove limit
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={!(parseFloat(budgetDraft) > 0)}
+                  className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Import Error Modal */}
+      {importError && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl w-[600px] max-h-[80vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-800">Import Failed</h2>
+              <button
+                onClick={() => setImportError(null)}
+                className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-3">
+              <p className="text-sm text-gray-700">{importError.message}</p>
+              {importError.issues.length > 0 && (
+                <ul className="space-y-1 font-mono text-xs text-red-600">
+                  {importError.issues.map((issue, index) => (
+                    <li key={index} className="p-2 bg-red-50 rounded border border-red-100">
+                      {issue}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Log Modal */}
+      {isLogOpen && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl w-[800px] max-h-[80vh] flex flex-col">
+            {/* Header */}
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-800">Activity Logs</h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={downloadLogs}
+                  className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg flex items-center gap-2 transition-colors"
+                >
+                  <Download size={16} />
+                  Download
+                </button>
+                <button
+                  onClick={() => setIsLogOpen(false)}
+                  className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  <X size={20} className="text-gray-500" />
+                </button>
+              </div>
+            </div>
+
+            {/* Log Content */}
+            <div className="flex-1 overflow-y-auto p-6">
+              {logs.length === 0 ? (
+                <p className="text-gray-400 text-center py-8">No activity logged yet</p>
+              ) : (
+                <div className="space-y-2 font-mono text-xs">
+                  {logs.map((log, index) => (
+                    <div
+                      key={index}
+                      className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
+                    >
+                      <div className="flex items-start gap-3">
+                        <span className="text-gray-400 whitespace-nowrap">{log.timestamp}</span>
+                        <div className="flex-1">
+                          <span className="font-semibold text-purple-600">{log.action}:</span>{' '}
+                          <span className="text-gray-700">{log.details}</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+    </ForkContext.Provider>
+    </BudgetContext.Provider>
+    </LogContext.Provider>
+  )
+}
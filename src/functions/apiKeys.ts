@@ -0,0 +1,45 @@
+// src/functions/apiKeys.ts
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { KEYED_PROVIDER_IDS, checkApiKeyFormat, getProviderLabel } from '../lib/providers'
+import { authMiddleware } from './identity'
+import { getProvider, getSharedKeyAvailability, requiresUserApiKeys, type KeyCheckResult } from './providers'
+
+// What the settings screen needs to explain where requests are billed
+export const getApiKeyPolicy = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .handler(async () => {
+    return {
+      requireUserKeys: requiresUserApiKeys(),
+      sharedKeys: getSharedKeyAvailability(),
+    }
+  })
+
+// Checked once when a key is saved; per-request checks are format only
+export const validateApiKey = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(
+    z.object({
+      provider: z.enum(KEYED_PROVIDER_IDS),
+      apiKey: z.string().max(1024),
+    })
+  )
+  .handler(async ({ data }): Promise<KeyCheckResult> => {
+    const tag = `[${getProviderLabel(data.provider)}]`
+    const apiKey = data.apiKey.trim()
+    const problem = checkApiKeyFormat(data.provider, apiKey)
+    if (problem) {
+      console.log(`${tag} Rejected API key: ${problem}`)
+      return { valid: false, message: problem }
+    }
+
+    try {
+      console.log(`${tag} Verifying a user API key...`)
+      const result = await getProvider(data.provider, apiKey).verifyKey()
+      console.log(`${tag} API key ${result.valid ? 'accepted' : 'rejected'}`)
+      return result
+    } catch (error) {
+      console.error(`${tag} Error verifying API key:`, error)
+      return { valid: false, message: error instanceof Error ? error.message : String(error) }
+    }
+  })
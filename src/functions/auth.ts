@@ -0,0 +1,68 @@
+// src/functions/auth.ts
+import { createServerFn } from '@tanstack/react-start'
+import { getRequestHeader, getRequestIP } from '@tanstack/react-start/server'
+import { z } from 'zod'
+import {
+  AuthError,
+  createSession,
+  destroySession,
+  getAuthStore,
+  getCurrentUser,
+  getIdentityProvider,
+  isSignUpAllowed,
+} from './identity'
+import { enforceRateLimit } from './limits'
+
+// Password guesses allowed per account and per address each minute
+const SIGN_IN_ATTEMPTS_PER_MINUTE = 5
+
+const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9_.-]{3,32}$/, 'Usernames are 3-32 letters, digits, _ . or -'),
+  password: z.string().min(8, 'Passwords need at least 8 characters').max(256),
+})
+
+// Read by the root route to decide between the app and the sign-in page
+export const getSession = createServerFn({ method: 'GET' }).handler(async () => {
+  return {
+    user: await getCurrentUser(),
+    canSignUp: isSignUpAllowed(),
+  }
+})
+
+export const signIn = createServerFn({ method: 'POST' })
+  .inputValidator(credentialsSchema)
+  .handler(async ({ data }) => {
+    // Counted before the password is checked, so failed guesses use up the limit too
+    const address = getRequestHeader('cf-connecting-ip') || getRequestIP()
+    await enforceRateLimit(`signin:account:${data.username.toLowerCase()}`, SIGN_IN_ATTEMPTS_PER_MINUTE)
+    if (address) await enforceRateLimit(`signin:ip:${address}`, SIGN_IN_ATTEMPTS_PER_MINUTE)
+
+    const user = await getIdentityProvider().signIn(data.username, data.password)
+    if (!user) {
+      console.log(`[Auth] Failed sign-in for ${data.username}`)
+      throw new AuthError('Wrong username or password')
+    }
+    await createSession(getAuthStore(), user.id)
+    console.log(`[Auth] ${user.username} signed in`)
+    return user
+  })
+
+export const signUp = createServerFn({ method: 'POST' })
+  .inputValidator(credentialsSchema)
+  .handler(async ({ data }) => {
+    const identity = getIdentityProvider()
+    if (!identity.signUp || !isSignUpAllowed()) {
+      throw new AuthError('New accounts are disabled on this server')
+    }
+    const user = await identity.signUp(data.username, data.password)
+    await createSession(getAuthStore(), user.id)
+    console.log(`[Auth] Created account ${user.username}`)
+    return user
+  })
+
+export const signOut = createServerFn({ method: 'POST' }).handler(async () => {
+  await destroySession(getAuthStore())
+})
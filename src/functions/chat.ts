@@ -1,232 +1,298 @@
 // src/functions/chat.ts
 import { createServerFn } from '@tanstack/react-start'
-import { OpenRouter } from '@openrouter/sdk'
 import { z } from 'zod'
-import { ProviderPreferences } from '@openrouter/sdk/models'
-import { env } from "cloudflare:workers";
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  encodeChatStreamEvent,
+  type ChatStreamEvent,
+} from '../lib/chatStream'
+import { estimateTextTokens } from '../lib/contextBudget'
+import { DEFAULT_PROVIDER, PROVIDER_IDS, getProviderLabel } from '../lib/providers'
+import { authMiddleware } from './identity'
+import { getProvider, toText, type ChatRequest } from './providers'
+import {
+  enforceModelAllowlist,
+  enforceRateLimit,
+  enforceTokenQuota,
+  getClientId,
+  recordTokenUsage,
+  usesSharedCredit,
+} from './limits'
 
+// Payload limits, generous enough for the largest attachments the client
+// accepts (10 MB PDFs, sent base64 encoded) but bounded overall
+const MAX_MESSAGES = 500
+const MAX_TEXT_CHARS = 400_000
+const MAX_DATA_URL_CHARS = 14 * 1024 * 1024
+const MAX_CONTENT_PARTS = 20
+const MAX_TOOLS = 64
+const MAX_REQUEST_CHARS = 32 * 1024 * 1024
 
-const messageSchema = z.object({
-  role: z.enum(['user', 'assistant', 'system']).default('user'),
-  message: z.string(),
-  model: z.string().optional().default('anthropic/claude-3.5-sonnet-20241022'),
-  messages: z.array(z.object({
-    role: z.enum(['user', 'assistant', 'system']),
-    content: z.string(),
-  })).optional(),
-  temperature: z.number().optional().default(0.7),
+// Rough size of the decoded payload, to bound the sum of all the fields above
+function measureChars(value: unknown): number {
+  if (typeof value === 'string') return value.length
+  if (Array.isArray(value)) return value.reduce((total: number, item) => total + measureChars(item), 0)
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((total, [key, item]) => total + key.length + measureChars(item), 0)
+  }
+  return 8
+}
+
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal('function').default('function'),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string().max(MAX_TEXT_CHARS),
+  }),
 })
 
-// Definitions of subtypes are below
-type Request = {
-    // Either "messages" or "prompt" is required
-    messages?: Message[];
-    prompt?: string;
-  
-    // If "model" is unspecified, uses the user's default
-    model?: string; // See "Supported Models" section
-  
-    // Allows to force the model to produce specific output format.
-    // See models page and note on this docs page for which models support it.
-    response_format?: { type: 'json_object' };
-  
-    stop?: string | string[];
-    stream?: boolean; // Enable streaming
-  
-    // See LLM Parameters (openrouter.ai/docs/api/reference/parameters)
-    max_tokens?: number; // Range: [1, context_length)
-    temperature?: number; // Range: [0, 2]
-  
-    // Tool calling
-    // Will be passed down as-is for providers implementing OpenAI's interface.
-    // For providers with custom interfaces, we transform and map the properties.
-    // Otherwise, we transform the tools into a YAML template. The model responds with an assistant message.
-    // See models supporting tool calling: openrouter.ai/models?supported_parameters=tools
-    tools?: Tool[];
-    tool_choice?: ToolChoice;
-  
-    // Advanced optional parameters
-    seed?: number; // Integer only
-    top_p?: number; // Range: (0, 1]
-    top_k?: number; // Range: [1, Infinity) Not available for OpenAI models
-    frequency_penalty?: number; // Range: [-2, 2]
-    presence_penalty?: number; // Range: [-2, 2]
-    repetition_penalty?: number; // Range: (0, 2]
-    logit_bias?: { [key: number]: number };
-    top_logprobs: number; // Integer only
-    min_p?: number; // Range: [0, 1]
-    top_a?: number; // Range: [0, 1]
-  
-    // Reduce latency by providing the model with a predicted output
-    // https://platform.openai.com/docs/guides/latency-optimization#use-predicted-outputs
-    prediction?: { type: 'content'; content: string };
-  
-    // OpenRouter-only parameters
-    // See "Prompt Transforms" section: openrouter.ai/docs/guides/features/message-transforms
-    transforms?: string[];
-    // See "Model Routing" section: openrouter.ai/docs/guides/features/model-routing
-    models?: string[];
-    route?: 'fallback';
-    // See "Provider Routing" section: openrouter.ai/docs/guides/routing/provider-selection
-    provider?: ProviderPreferences;
-    user?: string; // A stable identifier for your end-users. Used to help detect and prevent abuse.
-    
-    // Debug options (streaming only)
-    debug?: {
-      echo_upstream_body?: boolean; // If true, returns the transformed request body sent to the provider
-    };
-  };
-  
-  // Subtypes:
-  
-  type TextContent = {
-    type: 'text';
-    text: string;
-  };
-  
-  type ImageContentPart = {
-    type: 'image_url';
-    image_url: {
-      url: string; // URL or base64 encoded image data
-      detail?: string; // Optional, defaults to "auto"
-    };
-  };
-  
-  type ContentPart = TextContent | ImageContentPart;
-  
-  type Message =
-    | {
-        role: 'user' | 'assistant' | 'system';
-        // ContentParts are only for the "user" role:
-        content: string | ContentPart[];
-        // If "name" is included, it will be prepended like this
-        // for non-OpenAI models: `{name}: {content}`
-        name?: string;
-      }
-    | {
-        role: 'tool';
-        content: string;
-        tool_call_id: string;
-        name?: string;
-      };
-  
-  type FunctionDescription = {
-    description?: string;
-    name: string;
-    parameters: object; // JSON Schema object
-  };
-  
-  type Tool = {
-    type: 'function';
-    function: FunctionDescription;
-  };
-  
-  type ToolChoice =
-    | 'none'
-    | 'auto'
-    | {
-        type: 'function';
-        function: {
-          name: string;
-        };
-      };
-  
+const contentPartSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string().max(MAX_TEXT_CHARS) }),
+  // URL or base64 data URL
+  z.object({ type: z.literal('image_url'), image_url: z.object({ url: z.string().max(MAX_DATA_URL_CHARS) }) }),
+  // PDFs as base64 data URLs, parsed by OpenRouter
+  z.object({
+    type: z.literal('file'),
+    file: z.object({ filename: z.string().max(255), file_data: z.string().max(MAX_DATA_URL_CHARS) }),
+  }),
+])
 
-export const sendChatMessage = createServerFn({ method: 'POST' })
-  .inputValidator(messageSchema)
-  .handler(async ({ data, context }) => {
-    const messagesToSend = data.messages || [{ role: data.role, content: data.message }]
+const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
+  // Content parts are only accepted for user messages
+  content: z.union([z.string().max(MAX_TEXT_CHARS), z.array(contentPartSchema).min(1).max(MAX_CONTENT_PARTS)]),
+  // Assistant messages that requested tools
+  tool_calls: z.array(toolCallSchema).optional(),
+  // Tool results must reference the call they answer
+  tool_call_id: z.string().optional(),
+  name: z.string().optional(),
+}).refine((msg) => msg.role !== 'tool' || !!msg.tool_call_id, {
+  message: 'Tool messages require a tool_call_id',
+  path: ['tool_call_id'],
+}).refine((msg) => msg.role === 'user' || typeof msg.content === 'string', {
+  message: 'Only user messages may contain content parts',
+  path: ['content'],
+})
 
-    console.log(`[OpenRouter] Using model: ${data.model}`)
-    console.log(`[OpenRouter] Message count: ${messagesToSend.length}`)
-    console.log(`[OpenRouter] Temperature: ${data.temperature || 0.7}`)
-    console.log('[OpenRouter] Messages being sent:', JSON.stringify(messagesToSend, null, 2))
+const toolSchema = z.object({
+  type: z.literal('function'),
+  function: z.object({
+    // Function names follow the OpenAI naming rules
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Tool names may only contain letters, digits, _ and - (max 64)'),
+    description: z.string().optional(),
+    parameters: z.record(z.string(), z.unknown()),
+  }),
+})
 
-    // Get API key from Cloudflare env or fallback to process.env
-    const apiKey = env.OPENROUTER_API_KEY
+const toolChoiceSchema = z.union([
+  z.enum(['none', 'auto']),
+  z.object({
+    type: z.literal('function'),
+    function: z.object({ name: z.string() }),
+  }),
+])
 
-    if (!apiKey) {
-      console.error('[OpenRouter] OPENROUTER_API_KEY not found in env')
-      throw new Error('OPENROUTER_API_KEY is not configured')
-    }
+// JSON mode, or structured output constrained by a JSON Schema
+const responseFormatSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('json_object') }),
+  z.object({
+    type: z.literal('json_schema'),
+    json_schema: z.object({
+      name: z.string(),
+      strict: z.boolean().optional(),
+      schema: z.record(z.string(), z.unknown()),
+    }),
+  }),
+])
 
-    console.log('[OpenRouter] API key found, initializing client...')
-    console.log('[OpenRouter] API key type:', typeof apiKey)
-    console.log('[OpenRouter] API key length:', apiKey?.length)
-    console.log('[OpenRouter] API key (first 10 chars):', apiKey?.substring(0, 10) + '...')
-    console.log('[OpenRouter] API key is truthy:', !!apiKey)
+const messageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']).default('user'),
+  message: z.string().max(MAX_TEXT_CHARS),
+  model: z.string().optional().default('anthropic/claude-3.5-sonnet-20241022'),
+  // Which adapter answers the request (see functions/providers)
+  provider: z.enum(PROVIDER_IDS).default(DEFAULT_PROVIDER),
+  // The user's own key for `provider`, preferred over the shared one (never logged)
+  api_key: z.string().max(1024).optional(),
+  messages: z.array(chatMessageSchema).max(MAX_MESSAGES).optional(),
+  // Tried in order when `model` is unavailable (sent as `models` with `route: 'fallback'`)
+  fallback_models: z.array(z.string()).max(8).optional(),
+  // Omitted for models that don't accept it
+  temperature: z.number().optional(),
+  tools: z.array(toolSchema).max(MAX_TOOLS).optional(),
+  tool_choice: toolChoiceSchema.optional(),
+  response_format: responseFormatSchema.optional(),
+  // Sampling parameters, ranges as documented on the Request type in providers/openrouter.ts
+  max_tokens: z.number().int().min(1).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  top_k: z.number().int().min(1).optional(),
+  frequency_penalty: z.number().min(-2).max(2).optional(),
+  presence_penalty: z.number().min(-2).max(2).optional(),
+  repetition_penalty: z.number().gt(0).max(2).optional(),
+  min_p: z.number().min(0).max(1).optional(),
+  seed: z.number().int().optional(),
+  stop: z.union([z.string(), z.array(z.string())]).optional(),
+  logit_bias: z.record(z.string().regex(/^\d+$/), z.number().min(-100).max(100)).optional(),
+}).refine((data) => measureChars(data) <= MAX_REQUEST_CHARS, {
+  message: `The request is too large (max ${MAX_REQUEST_CHARS / 1024 / 1024} MB)`,
+})
 
-    if (!apiKey || apiKey.trim() === '' || apiKey === 'your-new-api-key-here') {
-      throw new Error('Invalid API key - please set a valid OpenRouter API key in .dev.vars')
-    }
+function toChatRequest(data: z.infer<typeof messageSchema>): ChatRequest {
+  return {
+    model: data.model,
+    fallbackModels: data.fallback_models,
+    messages: data.messages || [{ role: data.role, content: data.message }],
+    temperature: data.temperature,
+    tools: data.tools,
+    toolChoice: data.tool_choice,
+    responseFormat: data.response_format,
+    maxTokens: data.max_tokens,
+    topP: data.top_p,
+    topK: data.top_k,
+    frequencyPenalty: data.frequency_penalty,
+    presencePenalty: data.presence_penalty,
+    repetitionPenalty: data.repetition_penalty,
+    minP: data.min_p,
+    seed: data.seed,
+    stop: data.stop,
+    logitBias: data.logit_bias,
+  }
+}
 
-    // Create OpenRouter client with the API key
-    const openRouter = new OpenRouter({
-      apiKey: apiKey.trim(),
-    })
+export const sendChatMessage = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(messageSchema)
+  .handler(async ({ data, context, signal }) => {
+    const request = toChatRequest(data)
+    const provider = getProvider(data.provider, data.api_key)
+    const tag = `[${getProviderLabel(provider.id)}]`
+
+    const clientId = getClientId(context.user)
+    const isMetered = usesSharedCredit(provider.id, data.api_key)
+    enforceModelAllowlist(provider.id, [request.model, ...(request.fallbackModels || [])])
+    await enforceRateLimit(clientId)
+    if (isMetered) await enforceTokenQuota(clientId)
 
-    console.log('[OpenRouter] Client initialized successfully')
-    console.log('[OpenRouter] Sending request to API...')
-    console.log('[OpenRouter] Request details:', {
-      model: data.model,
-      messageCount: messagesToSend.length,
+    console.log(`${tag} Using model: ${request.model}`)
+    console.log(`${tag} Fallback models: ${request.fallbackModels?.join(', ') || 'none'}`)
+    console.log(`${tag} Message count: ${request.messages.length}`)
+    console.log(`${tag} Temperature: ${request.temperature ?? 'model default'}`)
+    console.log(`${tag} Tools: ${request.tools?.map((tool) => tool.function.name).join(', ') || 'none'}`)
+    console.log(`${tag} Response format: ${request.responseFormat?.type || 'text'}`)
+    console.log(`${tag} Messages being sent:`, JSON.stringify(request.messages, (key, value) =>
+      // Base64 images and PDFs would flood the log
+      (key === 'url' || key === 'file_data') && typeof value === 'string' && value.startsWith('data:') ? `${value.slice(0, 40)}...` : value, 2))
+    console.log(`${tag} Request details:`, {
+      model: request.model,
+      messageCount: request.messages.length,
       stream: true,
-      temperature: data.temperature || 0.7,
+      temperature: request.temperature,
+      toolCount: request.tools?.length || 0,
+      sampling: {
+        max_tokens: data.max_tokens,
+        top_p: data.top_p,
+        top_k: data.top_k,
+        frequency_penalty: data.frequency_penalty,
+        presence_penalty: data.presence_penalty,
+        repetition_penalty: data.repetition_penalty,
+        min_p: data.min_p,
+        seed: data.seed,
+        stop: data.stop,
+        logit_bias: data.logit_bias,
+      },
     })
 
-    let stream
+    // Aborted when the client goes away or cancels the response body, so the
+    // upstream request stops generating (and billing) tokens
+    const upstream = new AbortController()
+    signal.addEventListener('abort', () => upstream.abort(), { once: true })
+
+    let events: AsyncIterable<ChatStreamEvent>
     try {
-      stream = await openRouter.chat.send({
-        model: data.model,
-        messages: messagesToSend,
-        stream: true,
-        temperature: data.temperature || 0.7,
-      })
-      console.log('[OpenRouter] Stream connection established successfully')
+      console.log(`${tag} Sending request to API...`)
+      events = await provider.streamChat(request, upstream.signal)
     } catch (error) {
-      console.error('[OpenRouter] Error sending request:', error)
-      console.error('[OpenRouter] Error details:', JSON.stringify(error, null, 2))
+      console.error(`${tag} Error sending request:`, error)
+      console.error(`${tag} Error details:`, JSON.stringify(error, null, 2))
       throw error
     }
 
-    // Create a ReadableStream that will be sent to the client
-    const encoder = new TextEncoder()
-
+    // Create a ReadableStream of NDJSON events that will be sent to the client
     return new Response(
       new ReadableStream({
         async start(controller) {
           let totalChunks = 0
           let totalContent = ''
+          // Reasoning and tool call arguments, billed like content
+          let otherOutput = ''
+          let usageRecorded = false
+          // The client may cancel at any point; stop writing once it has
+          const send = (event: ChatStreamEvent) => {
+            if (!upstream.signal.aborted) controller.enqueue(encodeChatStreamEvent(event))
+          }
+
           try {
-            console.log('[OpenRouter] Starting to receive stream chunks...')
-            for await (const chunk of stream) {
-              const content = chunk.choices?.[0]?.delta?.content
-              if (content) {
+            console.log(`${tag} Starting to receive stream events...`)
+            for await (const event of events) {
+              if (upstream.signal.aborted) break
+              if (event.type === 'content') {
                 totalChunks++
-                totalContent += content
-                console.log(`[OpenRouter] Chunk ${totalChunks}: "${content}"`)
-                controller.enqueue(encoder.encode(content))
+                totalContent += event.delta
+                console.log(`${tag} Chunk ${totalChunks}: "${event.delta}"`)
+              } else if (event.type === 'reasoning') {
+                otherOutput += event.delta
+              } else if (event.type === 'tool_call') {
+                otherOutput += (event.name || '') + (event.arguments || '')
+                console.log(`${tag} Tool call delta ${event.index}:`, event.name || '', event.arguments || '')
+              } else if (event.type === 'finish') {
+                console.log(`${tag} Finish reason: ${event.reason}`)
+              } else if (event.type === 'usage' && isMetered) {
+                await recordTokenUsage(clientId, event.totalTokens)
+                usageRecorded = true
               }
+              send(event)
+              if (event.type === 'error') break
             }
-            console.log('[OpenRouter] Stream complete!')
-            console.log(`[OpenRouter] Total chunks received: ${totalChunks}`)
-            console.log(`[OpenRouter] Total content length: ${totalContent.length} characters`)
-            console.log('[OpenRouter] Complete response:', totalContent)
+
+            if (upstream.signal.aborted) {
+              console.log(`${tag} Stream cancelled by client after ${totalChunks} chunks`)
+              return
+            }
+
+            console.log(`${tag} Stream complete!`)
+            console.log(`${tag} Total chunks received: ${totalChunks}`)
+            console.log(`${tag} Total content length: ${totalContent.length} characters`)
+            console.log(`${tag} Complete response:`, totalContent)
             controller.close()
           } catch (error: any) {
-            if (error.name === 'AbortError') {
-              console.log('[OpenRouter] Stream cancelled by client')
-              controller.close()
+            if (error.name === 'AbortError' || upstream.signal.aborted) {
+              console.log(`${tag} Stream cancelled by client`)
             } else {
-              console.error('[OpenRouter] Stream error:', error)
-              controller.error(error)
+              // Report the failure in-band so the client keeps what was streamed so far
+              console.error(`${tag} Stream error:`, error)
+              send({ type: 'error', message: error?.message || String(error), code: error?.statusCode })
+              controller.close()
+            }
+          } finally {
+            // Usage arrives last, so a stream cancelled or failed after output
+            // started would otherwise be free; charge an estimate instead
+            if (isMetered && !usageRecorded && (totalContent || otherOutput || upstream.signal.aborted)) {
+              const prompt = request.messages.map((message) => toText(message.content)).join('\n')
+              const estimate = estimateTextTokens(prompt) + estimateTextTokens(totalContent + otherOutput)
+              console.log(`${tag} No usage reported, charging an estimated ${estimate} tokens`)
+              await recordTokenUsage(clientId, estimate)
             }
           }
         },
+        cancel() {
+          console.log(`${tag} Client cancelled the response, aborting upstream request`)
+          upstream.abort()
+        },
       }),
       {
         headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Type': CHAT_STREAM_CONTENT_TYPE,
           'Cache-Control': 'no-cache, no-transform',
           'X-Accel-Buffering': 'no',
           'Connection': 'keep-alive',
@@ -239,28 +305,30 @@ export const sendChatMessage = createServerFn({ method: 'POST' })
 const summarizeSchema = z.object({
   messages: z.array(z.object({
     role: z.enum(['user', 'assistant', 'system']),
-    content: z.string(),
-  })),
+    content: z.string().max(MAX_TEXT_CHARS),
+  })).max(MAX_MESSAGES),
   type: z.enum(['summary', 'keypoints']).default('summary'),
+  // Summaries use the requesting node's provider; OpenRouter picks its own model when none is given
+  provider: z.enum(PROVIDER_IDS).default(DEFAULT_PROVIDER),
+  model: z.string().optional(),
+  api_key: z.string().max(1024).optional(),
 })
 
 export const summarizeConversation = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
   .inputValidator(summarizeSchema)
   .handler(async ({ data, context }) => {
-    console.log(`[OpenRouter] Summarizing conversation with ${data.messages.length} messages`)
-    console.log(`[OpenRouter] Summary type: ${data.type}`)
-
-    // Get API key from Cloudflare env
-    const apiKey = env.OPENROUTER_API_KEY
+    const provider = getProvider(data.provider, data.api_key)
+    const tag = `[${getProviderLabel(provider.id)}]`
+    console.log(`${tag} Summarizing conversation with ${data.messages.length} messages`)
+    console.log(`${tag} Summary type: ${data.type}`)
 
-    if (!apiKey || apiKey.trim() === '' || apiKey === 'your-new-api-key-here') {
-      throw new Error('Invalid API key - please set a valid OpenRouter API key in .dev.vars')
-    }
-
-    // Create OpenRouter client
-    const openRouter = new OpenRouter({
-      apiKey: apiKey.trim(),
-    })
+    // OpenRouter summaries use a fixed model chosen by the server, not the client
+    const clientId = getClientId(context.user)
+    const isMetered = usesSharedCredit(provider.id, data.api_key)
+    if (data.model && data.provider !== 'openrouter') enforceModelAllowlist(provider.id, [data.model])
+    await enforceRateLimit(clientId)
+    if (isMetered) await enforceTokenQuota(clientId)
 
     // Format the conversation for summarization
     const conversationText = data.messages
@@ -274,26 +342,26 @@ export const summarizeConversation = createServerFn({ method: 'POST' })
 
     const userPrompt = `${systemPrompt}\n\nConversation:\n${conversationText}\n\nProvide the ${data.type === 'summary' ? 'summary' : 'key points'}:`
 
-    console.log('[OpenRouter] Sending summarization request...')
+    console.log(`${tag} Sending summarization request...`)
 
     try {
-      const response = await openRouter.chat.send({
-        model: 'anthropic/claude-haiku-4.5',
-        messages: [{ role: 'user', content: userPrompt }],
-        stream: false,
+      const result = await provider.complete({
+        model: data.provider === 'openrouter' ? undefined : data.model,
+        prompt: userPrompt,
         temperature: 0.3,
       })
-
-      const summary = response.choices?.[0]?.message?.content || ''
-      console.log(`[OpenRouter] Summary generated (${summary.length} chars)`)
+      console.log(`${tag} Summary generated (${result.text.length} chars)`)
+      if (result.usage) console.log(`${tag} Summary usage:`, result.usage)
+      if (result.usage && isMetered) await recordTokenUsage(clientId, result.usage.totalTokens)
 
       return {
         success: true,
-        summary: summary,
+        summary: result.text,
         type: data.type,
+        usage: result.usage,
       }
     } catch (error) {
-      console.error('[OpenRouter] Error generating summary:', error)
+      console.error(`${tag} Error generating summary:`, error)
       throw error
     }
-  })
\ No newline at end of file
+  })
@@ -0,0 +1,59 @@
+// src/functions/identity/index.ts
+// Resolves the user behind a request, configured from the server environment:
+//
+//   AUTH_PROVIDER        identity backend; "local" (default) is the built-in
+//                        username/password store
+//   AUTH_ALLOW_SIGNUP    "false" to stop new accounts being created
+//   AUTH_KV              optional KV namespace for accounts and sessions;
+//                        without it both live in memory
+//
+// Server functions that act for a user add `authMiddleware`, which refuses
+// anonymous requests and puts the user in `context.user`.
+
+import { env } from "cloudflare:workers";
+import { createMiddleware } from '@tanstack/react-start'
+import { createLocalIdentityProvider } from './local'
+import { getSessionUserId } from './sessions'
+import { createKVAuthStore, createMemoryAuthStore, type AuthStore } from './store'
+import { AuthError, type IdentityProvider, type User } from './types'
+
+let memoryStore: AuthStore | null = null
+
+export function getAuthStore(): AuthStore {
+  if (env.AUTH_KV) return createKVAuthStore(env.AUTH_KV)
+  memoryStore = memoryStore || createMemoryAuthStore()
+  return memoryStore
+}
+
+export function getIdentityProvider(): IdentityProvider {
+  const id = env.AUTH_PROVIDER || 'local'
+  switch (id) {
+    case 'local':
+      return createLocalIdentityProvider(getAuthStore())
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${id}"`)
+  }
+}
+
+export function isSignUpAllowed(): boolean {
+  return env.AUTH_ALLOW_SIGNUP !== 'false' && !!getIdentityProvider().signUp
+}
+
+// The signed-in user, or null for anonymous requests
+export async function getCurrentUser(): Promise<User | null> {
+  const userId = await getSessionUserId(getAuthStore())
+  if (!userId) return null
+  return getIdentityProvider().getUser(userId)
+}
+
+export const authMiddleware = createMiddleware({ type: 'function' }).server(async ({ next }) => {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new AuthError('Sign in to continue')
+  }
+  return next({ context: { user } })
+})
+
+export { createSession, destroySession } from './sessions'
+export { AuthError } from './types'
+export type { IdentityProvider, User } from './types'
@@ -0,0 +1,89 @@
+// src/functions/identity/local.ts
+// Username/password accounts kept in the auth store, for self-hosting without
+// an external identity provider. Passwords are hashed with PBKDF2-SHA256.
+
+import { AuthError, type IdentityProvider, type User } from './types'
+import type { AuthStore } from './store'
+
+// The Workers runtime caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000
+
+// Hashed against for unknown usernames, so they take as long as a wrong password
+const DUMMY_SALT = new Uint8Array(16)
+
+interface StoredAccount {
+  user: User
+  salt: string
+  passwordHash: string
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
+
+async function hashPassword(password: string, salt: Uint8Array<ArrayBuffer>): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  )
+  return toBase64(bits)
+}
+
+// Constant time, so response timing doesn't reveal how much of a hash matched
+function hashesEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return difference === 0
+}
+
+// Usernames are case-insensitive
+function getAccountKey(username: string): string {
+  return `account:${username.trim().toLowerCase()}`
+}
+
+export function createLocalIdentityProvider(store: AuthStore): IdentityProvider {
+  const readAccount = async (username: string): Promise<StoredAccount | null> => {
+    const value = await store.get(getAccountKey(username))
+    return value ? (JSON.parse(value) as StoredAccount) : null
+  }
+
+  return {
+    id: 'local',
+
+    async signIn(username, password) {
+      const account = await readAccount(username)
+      if (!account) {
+        await hashPassword(password, DUMMY_SALT)
+        return null
+      }
+      const hash = await hashPassword(password, fromBase64(account.salt))
+      return hashesEqual(hash, account.passwordHash) ? account.user : null
+    },
+
+    async signUp(username, password) {
+      if (await readAccount(username)) {
+        throw new AuthError('That username is taken')
+      }
+      const salt = crypto.getRandomValues(new Uint8Array(16))
+      const user: User = { id: crypto.randomUUID(), username: username.trim(), createdAt: Date.now() }
+      const account: StoredAccount = { user, salt: toBase64(salt), passwordHash: await hashPassword(password, salt) }
+      await store.put(getAccountKey(username), JSON.stringify(account))
+      // Sessions only know the id
+      await store.put(`user:${user.id}`, user.username)
+      return user
+    },
+
+    async getUser(id) {
+      const username = await store.get(`user:${id}`)
+      if (!username) return null
+      return (await readAccount(username))?.user ?? null
+    },
+  }
+}
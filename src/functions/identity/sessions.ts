@@ -0,0 +1,40 @@
+// src/functions/identity/sessions.ts
+// Opaque session tokens in an HttpOnly cookie. The store only keeps a hash of
+// each token, so a leaked store can't be replayed as sessions.
+
+import { deleteCookie, getCookie, getRequestUrl, setCookie } from '@tanstack/react-start/server'
+import type { AuthStore } from './store'
+
+const SESSION_COOKIE = 'wrkbench_session'
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60
+
+async function getSessionKey(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return `session:${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+export async function createSession(store: AuthStore, userId: string): Promise<void> {
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, '0')).join('')
+  await store.put(await getSessionKey(token), userId, SESSION_TTL_SECONDS)
+  setCookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    // Plain http is only used by the local dev server
+    secure: getRequestUrl().protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  })
+}
+
+// The user id behind the request's session cookie, if it is still valid
+export async function getSessionUserId(store: AuthStore): Promise<string | null> {
+  const token = getCookie(SESSION_COOKIE)
+  if (!token) return null
+  return store.get(await getSessionKey(token))
+}
+
+export async function destroySession(store: AuthStore): Promise<void> {
+  const token = getCookie(SESSION_COOKIE)
+  if (token) await store.delete(await getSessionKey(token))
+  deleteCookie(SESSION_COOKIE, { path: '/' })
+}
@@ -0,0 +1,43 @@
+// src/functions/identity/store.ts
+// Key-value storage for accounts and sessions: a KV namespace when deployed,
+// process memory in development (everyone is signed out on restart).
+
+export interface AuthStore {
+  get(key: string): Promise<string | null>
+  put(key: string, value: string, ttlSeconds?: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export function createMemoryAuthStore(): AuthStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value
+    },
+
+    async put(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity })
+    },
+
+    async delete(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+export function createKVAuthStore(kv: KVNamespace): AuthStore {
+  return {
+    get: (key) => kv.get(key),
+    // KV rejects TTLs under a minute
+    put: (key, value, ttlSeconds) =>
+      kv.put(key, value, ttlSeconds ? { expirationTtl: Math.max(60, ttlSeconds) } : undefined),
+    delete: (key) => kv.delete(key),
+  }
+}
@@ -0,0 +1,27 @@
+// src/functions/identity/types.ts
+// Who is making a request. Identity backends verify credentials; sessions
+// (see sessions.ts) remember the result between requests.
+
+export interface User {
+  id: string
+  username: string
+  createdAt: number
+}
+
+export interface IdentityProvider {
+  id: string
+  // The matching user, or null when the credentials are wrong
+  signIn(username: string, password: string): Promise<User | null>
+  // Backends that manage their own accounts can create them; throws AuthError
+  // when the username is taken
+  signUp?(username: string, password: string): Promise<User>
+  getUser(id: string): Promise<User | null>
+}
+
+// Thrown when a request has no valid session or credentials are refused
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
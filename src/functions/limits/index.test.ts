@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Only provided inside the Workers runtime; without LIMITS_KV the limits use the memory store
+const env = vi.hoisted((): Record<string, string | undefined> => ({}))
+vi.mock('cloudflare:workers', () => ({ env }))
+
+import { createMemoryLimitStore } from './store'
+import {
+  RequestLimitError,
+  enforceModelAllowlist,
+  enforceRateLimit,
+  enforceTokenQuota,
+  isModelAllowed,
+  recordTokenUsage,
+} from './index'
+
+// Every test gets its own client, since the memory store lives for the whole file
+let clientCount = 0
+const newClient = () => `user:test-${++clientCount}`
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2026-03-01T12:00:10Z'))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  for (const key of Object.keys(env)) delete env[key]
+})
+
+describe('memory limit store', () => {
+  it('adds to a counter until it expires', async () => {
+    const store = createMemoryLimitStore()
+    expect(await store.increment('a', 2, 60)).toBe(2)
+    expect(await store.increment('a', 3, 60)).toBe(5)
+    expect(await store.get('a')).toBe(5)
+
+    vi.advanceTimersByTime(60_000)
+    expect(await store.get('a')).toBe(0)
+    expect(await store.increment('a', 1, 60)).toBe(1)
+  })
+
+  it('keeps the expiry of the first write', async () => {
+    const store = createMemoryLimitStore()
+    await store.increment('a', 1, 60)
+    vi.advanceTimersByTime(50_000)
+    await store.increment('a', 1, 60)
+    vi.advanceTimersByTime(10_000)
+    expect(await store.get('a')).toBe(0)
+  })
+})
+
+describe('enforceRateLimit', () => {
+  it('refuses requests past the limit until the next minute', async () => {
+    env.RATE_LIMIT_PER_MINUTE = '2'
+    const client = newClient()
+    await enforceRateLimit(client)
+    await enforceRateLimit(client)
+
+    const refused = enforceRateLimit(client)
+    await expect(refused).rejects.toBeInstanceOf(RequestLimitError)
+    await expect(refused).rejects.toMatchObject({ retryAfterSeconds: 50 })
+
+    vi.setSystemTime(new Date('2026-03-01T12:01:00Z'))
+    await expect(enforceRateLimit(client)).resolves.toBeUndefined()
+  })
+
+  it('counts clients separately', async () => {
+    env.RATE_LIMIT_PER_MINUTE = '1'
+    await enforceRateLimit(newClient())
+    await expect(enforceRateLimit(newClient())).resolves.toBeUndefined()
+  })
+
+  it('is off when set to 0', async () => {
+    env.RATE_LIMIT_PER_MINUTE = '0'
+    const client = newClient()
+    for (let i = 0; i < 50; i++) await enforceRateLimit(client)
+  })
+})
+
+describe('daily token quota', () => {
+  it('refuses new requests once the day is used up', async () => {
+    env.DAILY_TOKEN_QUOTA = '1000'
+    const client = newClient()
+    await recordTokenUsage(client, 600)
+    await expect(enforceTokenQuota(client)).resolves.toBeUndefined()
+
+    await recordTokenUsage(client, 400)
+    await expect(enforceTokenQuota(client)).rejects.toBeInstanceOf(RequestLimitError)
+  })
+
+  it('starts over at midnight UTC', async () => {
+    env.DAILY_TOKEN_QUOTA = '100'
+    const client = newClient()
+    await recordTokenUsage(client, 100)
+    await expect(enforceTokenQuota(client)).rejects.toBeInstanceOf(RequestLimitError)
+
+    vi.setSystemTime(new Date('2026-03-02T00:00:01Z'))
+    await expect(enforceTokenQuota(client)).resolves.toBeUndefined()
+  })
+
+  it('ignores empty usage', async () => {
+    env.DAILY_TOKEN_QUOTA = '1'
+    const client = newClient()
+    await recordTokenUsage(client, 0)
+    await recordTokenUsage(client, Number.NaN)
+    await expect(enforceTokenQuota(client)).resolves.toBeUndefined()
+  })
+})
+
+describe('model allowlist', () => {
+  it('allows every model when unset', () => {
+    expect(isModelAllowed('openrouter', 'openai/gpt-5')).toBe(true)
+  })
+
+  it('matches exact ids and vendor wildcards', () => {
+    env.MODEL_ALLOWLIST = 'anthropic/*, openai/gpt-5-mini'
+    expect(isModelAllowed('openrouter', 'anthropic/claude-haiku-4.5')).toBe(true)
+    expect(isModelAllowed('openrouter', 'openai/gpt-5-mini')).toBe(true)
+    expect(isModelAllowed('openrouter', 'openai/gpt-5')).toBe(false)
+    expect(isModelAllowed('mock', 'anything')).toBe(true)
+    expect(() => enforceModelAllowlist('openrouter', ['openai/gpt-5'])).toThrow(RequestLimitError)
+  })
+})
@@ -0,0 +1,135 @@
+// src/functions/limits/index.ts
+// Abuse protection for the chat server functions, counted per signed-in
+// user and configured from the server environment:
+//
+//   RATE_LIMIT_PER_MINUTE   requests per client per minute (default 30, 0 = off)
+//   DAILY_TOKEN_QUOTA       tokens per client per UTC day spent on shared keys
+//                           (default 1,000,000, 0 = off)
+//   MODEL_ALLOWLIST         comma-separated model ids; "vendor/*" allows a whole
+//                           vendor. Unset allows every model.
+//   LIMITS_KV               optional KV namespace holding the counters
+//
+// Requests made with the user's own API key, or to the mock provider, count
+// towards the rate limit but not the token quota: they don't spend our credit.
+
+import { env } from "cloudflare:workers";
+import type { ProviderId } from '../../lib/providers'
+import type { User } from '../identity'
+import { createKVLimitStore, createMemoryLimitStore, type LimitStore } from './store'
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 30
+const DEFAULT_DAILY_TOKEN_QUOTA = 1_000_000
+// Catalog refreshes skip the server cache and reach the provider directly
+const CATALOG_REFRESHES_PER_HOUR = 5
+
+// Thrown when a request is refused; the message is shown to the user as is
+export class RequestLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(message)
+    this.name = 'RequestLimitError'
+  }
+}
+
+let memoryStore: LimitStore | null = null
+
+function getStore(): LimitStore {
+  if (env.LIMITS_KV) return createKVLimitStore(env.LIMITS_KV)
+  // Module state survives between requests in dev and within one isolate
+  memoryStore = memoryStore || createMemoryLimitStore()
+  return memoryStore
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback
+  const limit = Number(value)
+  return Number.isFinite(limit) && limit >= 0 ? limit : fallback
+}
+
+// Limits follow the account, so they hold across devices and addresses
+export function getClientId(user: User): string {
+  return `user:${user.id}`
+}
+
+// Whether a request's tokens are paid from the shared key
+export function usesSharedCredit(provider: ProviderId, userApiKey: string | undefined): boolean {
+  return provider !== 'mock' && !userApiKey
+}
+
+// Fixed one-minute windows: cheap, and bursts at a window edge are bounded by 2x.
+// `perMinute` replaces the configured limit for callers with their own.
+export async function enforceRateLimit(clientId: string, perMinute?: number): Promise<void> {
+  const limit = perMinute ?? readLimit(env.RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_PER_MINUTE)
+  if (limit === 0) return
+
+  const window = Math.floor(Date.now() / 60_000)
+  const count = await getStore().increment(`rate:${clientId}:${window}`, 1, 60)
+  if (count > limit) {
+    const retryAfterSeconds = Math.ceil(((window + 1) * 60_000 - Date.now()) / 1000)
+    console.log(`[Limits] Rate limit hit by ${clientId} (${count}/${limit} this minute)`)
+    throw new RequestLimitError(`Too many requests. Try again in ${retryAfterSeconds}s.`, retryAfterSeconds)
+  }
+}
+
+// Whether a client may bypass the model catalog cache; refreshes past the
+// limit are served from the cache like any other request
+export async function allowCatalogRefresh(clientId: string): Promise<boolean> {
+  const window = Math.floor(Date.now() / 3_600_000)
+  const count = await getStore().increment(`catalog:${clientId}:${window}`, 1, 60 * 60)
+  if (count > CATALOG_REFRESHES_PER_HOUR) {
+    console.log(`[Limits] Catalog refresh limit hit by ${clientId} (${count}/${CATALOG_REFRESHES_PER_HOUR} this hour)`)
+    return false
+  }
+  return true
+}
+
+function getQuotaKey(clientId: string): string {
+  return `tokens:${clientId}:${new Date().toISOString().slice(0, 10)}`
+}
+
+// Token counts are only known once a reply finishes, so this refuses new
+// requests after the quota is used up rather than cutting replies short
+export async function enforceTokenQuota(clientId: string): Promise<void> {
+  const quota = readLimit(env.DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA)
+  if (quota === 0) return
+
+  const used = await getStore().get(getQuotaKey(clientId))
+  if (used >= quota) {
+    console.log(`[Limits] Daily token quota used up by ${clientId} (${used}/${quota})`)
+    throw new RequestLimitError(
+      `Daily token quota of ${quota.toLocaleString()} reached. It resets at midnight UTC, or add your own API key in Settings.`
+    )
+  }
+}
+
+// Never fails the reply it is recording; a lost write only under-counts
+export async function recordTokenUsage(clientId: string, tokens: number): Promise<void> {
+  if (!(tokens > 0)) return
+  try {
+    // Kept a little past midnight so a late write can't recreate yesterday's key
+    const total = await getStore().increment(getQuotaKey(clientId), tokens, 26 * 60 * 60)
+    console.log(`[Limits] ${clientId} has used ${total} tokens today`)
+  } catch (error) {
+    console.error(`[Limits] Failed to record token usage for ${clientId}:`, error)
+  }
+}
+
+function getModelAllowlist(): string[] | null {
+  const entries = (env.MODEL_ALLOWLIST || '').split(',').map((entry) => entry.trim()).filter(Boolean)
+  return entries.length > 0 ? entries : null
+}
+
+export function isModelAllowed(provider: ProviderId, model: string): boolean {
+  // The mock provider costs nothing
+  if (provider === 'mock') return true
+  const allowlist = getModelAllowlist()
+  if (!allowlist) return true
+  return allowlist.some((entry) => (entry.endsWith('/*') ? model.startsWith(entry.slice(0, -1)) : model === entry))
+}
+
+export function enforceModelAllowlist(provider: ProviderId, models: string[]): void {
+  const refused = models.filter((model) => !isModelAllowed(provider, model))
+  if (refused.length > 0) {
+    console.log(`[Limits] Refused models not on the allowlist: ${refused.join(', ')}`)
+    throw new RequestLimitError(`Not allowed on this server: ${refused.join(', ')}`)
+  }
+}
@@ -0,0 +1,54 @@
+// src/functions/limits/store.ts
+// Counters behind the rate limiter and token quota. Deployed workers use a KV
+// namespace so limits hold across isolates; development (and any deploy
+// without the binding) falls back to process memory.
+
+export interface LimitStore {
+  // Adds `amount` to the counter at `key` and returns the new total. The
+  // counter disappears `ttlSeconds` after it was first written.
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>
+  get(key: string): Promise<number>
+}
+
+export function createMemoryLimitStore(): LimitStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>()
+
+  const read = (key: string) => {
+    const counter = counters.get(key)
+    if (counter && counter.expiresAt <= Date.now()) {
+      counters.delete(key)
+      return undefined
+    }
+    return counter
+  }
+
+  return {
+    async increment(key, amount, ttlSeconds) {
+      const counter = read(key) || { value: 0, expiresAt: Date.now() + ttlSeconds * 1000 }
+      counter.value += amount
+      counters.set(key, counter)
+      return counter.value
+    },
+
+    async get(key) {
+      return read(key)?.value ?? 0
+    },
+  }
+}
+
+// KV has no atomic increment, so concurrent requests can under-count by a few.
+// That is fine for abuse protection; exact metering would need a Durable Object.
+export function createKVLimitStore(kv: KVNamespace): LimitStore {
+  return {
+    async increment(key, amount, ttlSeconds) {
+      const value = (Number(await kv.get(key)) || 0) + amount
+      // KV rejects TTLs under a minute
+      await kv.put(key, String(value), { expirationTtl: Math.max(60, ttlSeconds) })
+      return value
+    },
+
+    async get(key) {
+      return Number(await kv.get(key)) || 0
+    },
+  }
+}
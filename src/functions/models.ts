@@ -0,0 +1,45 @@
+// src/functions/models.ts
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import type { ModelInfo } from '../lib/modelCatalog'
+import { DEFAULT_PROVIDER, PROVIDER_IDS, getProviderLabel, type ProviderId } from '../lib/providers'
+import { getCatalogProvider } from './providers'
+import { authMiddleware } from './identity'
+import { allowCatalogRefresh, getClientId, isModelAllowed } from './limits'
+
+// OpenRouter's catalog changes a few times a day at most
+const CACHE_TTL_MS = 60 * 60 * 1000
+
+const cachedModels = new Map<ProviderId, { models: ModelInfo[]; fetchedAt: number }>()
+
+export const listModels = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .inputValidator(
+    z.object({ refresh: z.boolean().optional(), provider: z.enum(PROVIDER_IDS).default(DEFAULT_PROVIDER) }).optional()
+  )
+  .handler(async ({ data, context }) => {
+    const providerId = data?.provider ?? DEFAULT_PROVIDER
+    const tag = `[${getProviderLabel(providerId)}]`
+    const cached = cachedModels.get(providerId)
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity
+    const refresh = !!data?.refresh && !!cached && (await allowCatalogRefresh(getClientId(context.user)))
+    if (cached && age < CACHE_TTL_MS && !refresh) {
+      console.log(`${tag} Serving ${cached.models.length} cached models (${Math.round(age / 1000)}s old)`)
+      return cached.models
+    }
+
+    try {
+      console.log(`${tag} Fetching model catalog...`)
+      // Models the server would refuse are not offered in the picker
+      const models = (await getCatalogProvider(providerId).listModels())
+        .filter((model) => isModelAllowed(providerId, model.id))
+      cachedModels.set(providerId, { models, fetchedAt: Date.now() })
+      console.log(`${tag} Cached ${models.length} models`)
+      return models
+    } catch (error) {
+      console.error(`${tag} Error fetching models:`, error)
+      // A stale catalog beats no catalog
+      if (cached) return cached.models
+      throw error
+    }
+  })
@@ -0,0 +1,78 @@
+// src/functions/providers/index.ts
+// Builds the adapter a request asked for from the server environment.
+//
+//   OPENROUTER_API_KEY            OpenRouter (default provider)
+//   OPENAI_COMPATIBLE_BASE_URL    e.g. http://localhost:11434/v1 for Ollama
+//   OPENAI_COMPATIBLE_API_KEY     optional; most local servers ignore it
+//   REQUIRE_USER_API_KEYS         "true" to never spend the keys above on a
+//                                 request without the user's own key
+//
+// A key sent by the user (see lib/apiKeys.ts) always wins over the shared one.
+
+import { env } from "cloudflare:workers";
+import { checkApiKeyFormat, getProviderLabel, isKeyedProvider, type ProviderId } from '../../lib/providers'
+import { createMockProvider } from './mock'
+import { createOpenAICompatibleProvider } from './openaiCompatible'
+import { createOpenRouterProvider } from './openrouter'
+import { ProviderConfigError, type ChatProvider } from './types'
+
+export function requiresUserApiKeys(): boolean {
+  return env.REQUIRE_USER_API_KEYS === 'true'
+}
+
+// Which providers have a shared key the server may fall back to
+export function getSharedKeyAvailability(): Record<'openrouter' | 'openai-compatible', boolean> {
+  const allowed = !requiresUserApiKeys()
+  return {
+    openrouter: allowed && !!env.OPENROUTER_API_KEY,
+    // Local servers usually need no key, only a base URL
+    'openai-compatible': allowed && !!env.OPENAI_COMPATIBLE_BASE_URL,
+  }
+}
+
+// The user's key when one was sent, otherwise the shared one if the admin allows it
+function resolveApiKey(id: ProviderId, userApiKey: string | undefined, sharedApiKey: string | undefined): string | undefined {
+  const label = getProviderLabel(id)
+  if (userApiKey !== undefined && isKeyedProvider(id)) {
+    const problem = checkApiKeyFormat(id, userApiKey.trim())
+    if (problem) {
+      throw new ProviderConfigError(`Invalid ${label} API key: ${problem}`)
+    }
+    console.log(`[${label}] Using the user's own API key`)
+    return userApiKey.trim()
+  }
+  if (requiresUserApiKeys()) {
+    throw new ProviderConfigError(`${label} requires your own API key. Add one in Settings.`)
+  }
+  console.log(`[${label}] Using the shared API key`)
+  return sharedApiKey
+}
+
+export function getProvider(id: ProviderId, userApiKey?: string): ChatProvider {
+  switch (id) {
+    case 'mock':
+      return createMockProvider()
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(
+        env.OPENAI_COMPATIBLE_BASE_URL,
+        resolveApiKey(id, userApiKey, env.OPENAI_COMPATIBLE_API_KEY)
+      )
+    default:
+      return createOpenRouterProvider(resolveApiKey(id, userApiKey, env.OPENROUTER_API_KEY))
+  }
+}
+
+// Listing models costs nothing, so catalogs always use the shared configuration
+export function getCatalogProvider(id: ProviderId): ChatProvider {
+  switch (id) {
+    case 'mock':
+      return createMockProvider()
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(env.OPENAI_COMPATIBLE_BASE_URL, env.OPENAI_COMPATIBLE_API_KEY)
+    default:
+      return createOpenRouterProvider(env.OPENROUTER_API_KEY)
+  }
+}
+
+export { ProviderConfigError, toText } from './types'
+export type { ChatProvider, ChatRequest, KeyCheckResult } from './types'
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { encodeChatStreamEvent, readChatStream, type ChatStreamEvent } from '../../lib/chatStream'
+import { MOCK_MODEL_ID } from '../../lib/providers'
+import { createMockProvider } from './mock'
+import type { ChatRequest } from './types'
+
+async function collect(request: ChatRequest, signal = new AbortController().signal): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = []
+  for await (const event of await createMockProvider().streamChat(request, signal)) events.push(event)
+  return events
+}
+
+const request = (content: string, extra: Partial<ChatRequest> = {}): ChatRequest => ({
+  model: MOCK_MODEL_ID,
+  messages: [{ role: 'user', content }],
+  ...extra,
+})
+
+describe('mock provider stream', () => {
+  it('reports the model, streams the echo, then finishes with usage', async () => {
+    const events = await collect(request('hello there'))
+
+    expect(events[0]).toEqual({ type: 'model', model: MOCK_MODEL_ID })
+    const text = events.flatMap((event) => (event.type === 'content' ? [event.delta] : [])).join('')
+    expect(text).toBe('Mock reply to: hello there')
+    expect(events.filter((event) => event.type === 'content').length).toBeGreaterThan(1)
+    expect(events.at(-2)).toEqual({ type: 'finish', reason: 'stop' })
+    expect(events.at(-1)).toMatchObject({ type: 'usage', cost: 0 })
+  })
+
+  it('counts tokens from the prompt and the reply', async () => {
+    const usage = (await collect(request('x'.repeat(40)))).at(-1)
+    expect(usage).toEqual({ type: 'usage', promptTokens: 10, completionTokens: 14, totalTokens: 24, cost: 0 })
+  })
+
+  it('answers JSON modes with a JSON object', async () => {
+    const events = await collect(request('hi', { responseFormat: { type: 'json_object' } }))
+    const text = events.flatMap((event) => (event.type === 'content' ? [event.delta] : [])).join('')
+    expect(JSON.parse(text)).toEqual({ echo: 'hi', messages: 1 })
+  })
+
+  it('calls a forced tool instead of replying', async () => {
+    const events = await collect(
+      request('weather?', {
+        tools: [{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }],
+        toolChoice: { type: 'function', function: { name: 'get_weather' } },
+      })
+    )
+
+    expect(events.map((event) => event.type)).toEqual(['model', 'tool_call', 'finish', 'usage'])
+    expect(events[1]).toEqual({ type: 'tool_call', index: 0, id: 'mock-call-0', name: 'get_weather', arguments: '{}' })
+    expect(events[2]).toEqual({ type: 'finish', reason: 'tool_calls' })
+  })
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController()
+    const events: ChatStreamEvent[] = []
+    for await (const event of await createMockProvider().streamChat(request('one two three four'), controller.signal)) {
+      events.push(event)
+      if (event.type === 'content') controller.abort()
+    }
+
+    expect(events.map((event) => event.type)).toEqual(['model', 'content'])
+  })
+
+  it('round-trips through the NDJSON stream encoding', async () => {
+    const events = await collect(request('over the wire'))
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        events.forEach((event) => controller.enqueue(encodeChatStreamEvent(event)))
+        controller.close()
+      },
+    })
+
+    const decoded: ChatStreamEvent[] = []
+    for await (const event of readChatStream(new Response(body))) decoded.push(event)
+    expect(decoded).toEqual(events)
+  })
+})
@@ -0,0 +1,84 @@
+// src/functions/providers/mock.ts
+// Deterministic offline provider for tests and demos. The reply depends only
+// on the request: it echoes the last user message, answers JSON modes with a
+// small JSON object and calls a forced tool with empty arguments. Nothing is
+// billed, and no network access or API key is needed.
+
+import type { ChatStreamEvent } from '../../lib/chatStream'
+import type { ModelInfo } from '../../lib/modelCatalog'
+import { MOCK_MODEL_ID } from '../../lib/providers'
+import { toText, type ChatProvider, type ChatRequest } from './types'
+
+const MOCK_MODEL: ModelInfo = {
+  id: MOCK_MODEL_ID,
+  name: 'Mock echo',
+  description: 'Echoes the last user message. No network access, no cost.',
+  contextLength: 32_000,
+  maxCompletionTokens: 4_096,
+  pricing: { prompt: 0, completion: 0 },
+  inputModalities: ['text', 'image'],
+  outputModalities: ['text'],
+  supportedParameters: ['temperature', 'max_tokens', 'tools', 'tool_choice', 'response_format', 'structured_outputs'],
+}
+
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function getReply(request: ChatRequest): string {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user')
+  const prompt = lastUser ? toText(lastUser.content) : ''
+  if (request.responseFormat) {
+    return JSON.stringify({ echo: prompt, messages: request.messages.length })
+  }
+  return `Mock reply to: ${prompt}`
+}
+
+export function createMockProvider(): ChatProvider {
+  return {
+    id: 'mock',
+
+    async streamChat(request: ChatRequest, signal: AbortSignal) {
+      const promptTokens = countTokens(request.messages.map((m) => toText(m.content)).join('\n'))
+
+      async function* events(): AsyncGenerator<ChatStreamEvent> {
+        yield { type: 'model', model: MOCK_MODEL_ID }
+
+        const forcedTool = typeof request.toolChoice === 'object' ? request.toolChoice.function.name : undefined
+        if (request.tools?.length && forcedTool) {
+          yield { type: 'tool_call', index: 0, id: 'mock-call-0', name: forcedTool, arguments: '{}' }
+          yield { type: 'finish', reason: 'tool_calls' }
+          yield { type: 'usage', promptTokens, completionTokens: 1, totalTokens: promptTokens + 1, cost: 0 }
+          return
+        }
+
+        const reply = getReply(request)
+        // Word by word, so the client exercises the same streaming path as real providers
+        for (const word of reply.split(/(?<=\s)/)) {
+          if (signal.aborted) return
+          yield { type: 'content', delta: word }
+        }
+        const completionTokens = countTokens(reply)
+        yield { type: 'finish', reason: 'stop' }
+        yield { type: 'usage', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cost: 0 }
+      }
+
+      return events()
+    },
+
+    async complete(request) {
+      const text = `Mock summary (${request.prompt.length} characters of input)`
+      const promptTokens = countTokens(request.prompt)
+      const completionTokens = countTokens(text)
+      return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cost: 0 } }
+    },
+
+    async listModels() {
+      return [MOCK_MODEL]
+    },
+
+    async verifyKey() {
+      return { valid: true, message: 'The mock provider needs no key' }
+    },
+  }
+}
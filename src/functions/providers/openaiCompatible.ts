@@ -0,0 +1,258 @@
+// src/functions/providers/openaiCompatible.ts
+// Any server implementing the OpenAI chat completions API (llama.cpp,
+// Ollama, vLLM, LM Studio...), reached through the AI SDK at a base URL set
+// in the server environment. Local servers report no prices, so usage is
+// counted without cost.
+
+import { createOpenAI } from '@ai-sdk/openai'
+import { Output, jsonSchema, streamText, generateText, tool, type ModelMessage, type ToolSet } from 'ai'
+import type { PayloadMessage } from '../../lib/chatPayload'
+import type { ChatStreamEvent } from '../../lib/chatStream'
+import type { ModelInfo } from '../../lib/modelCatalog'
+import { ProviderConfigError, toText, type ChatProvider, type ChatRequest, type ChatToolChoice } from './types'
+
+// Parameters this adapter forwards; the model picker greys out the rest
+const SUPPORTED_PARAMETERS = [
+  'temperature',
+  'max_tokens',
+  'top_p',
+  'top_k',
+  'frequency_penalty',
+  'presence_penalty',
+  'seed',
+  'stop',
+  'logit_bias',
+  'tools',
+  'tool_choice',
+  'response_format',
+  'structured_outputs',
+]
+
+// Arguments are written by the model and may be malformed; a broken turn
+// earlier in the conversation must not fail every later request
+function parseToolArguments(args: string): unknown {
+  if (!args) return {}
+  try {
+    return JSON.parse(args)
+  } catch {
+    return args
+  }
+}
+
+function toModelMessage(msg: PayloadMessage): ModelMessage {
+  switch (msg.role) {
+    case 'system':
+      return { role: 'system', content: toText(msg.content) }
+    case 'tool':
+      return {
+        role: 'tool',
+        content: [{
+          type: 'tool-result',
+          toolCallId: msg.tool_call_id!,
+          toolName: msg.name || '',
+          output: { type: 'text', value: toText(msg.content) },
+        }],
+      }
+    case 'assistant': {
+      const text = toText(msg.content)
+      if (!msg.tool_calls?.length) return { role: 'assistant', content: text }
+      return {
+        role: 'assistant',
+        content: [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...msg.tool_calls.map((call) => ({
+            type: 'tool-call' as const,
+            toolCallId: call.id,
+            toolName: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          })),
+        ],
+      }
+    }
+    default:
+      if (typeof msg.content === 'string') return { role: 'user', content: msg.content }
+      return {
+        role: 'user',
+        content: msg.content.map((part) => {
+          if (part.type === 'text') return { type: 'text' as const, text: part.text }
+          if (part.type === 'image_url') return { type: 'image' as const, image: new URL(part.image_url.url) }
+          return {
+            type: 'file' as const,
+            data: new URL(part.file.file_data),
+            mediaType: 'application/pdf',
+            filename: part.file.filename,
+          }
+        }),
+      }
+  }
+}
+
+// Tools are declared without `execute`, so calls come back to the client like with OpenRouter
+function toToolSet(request: ChatRequest): ToolSet | undefined {
+  if (!request.tools?.length) return undefined
+  return Object.fromEntries(
+    request.tools.map((definition) => [
+      definition.function.name,
+      tool({ description: definition.function.description, inputSchema: jsonSchema(definition.function.parameters) }),
+    ])
+  )
+}
+
+function toToolChoice(choice: ChatToolChoice | undefined) {
+  if (!choice || typeof choice === 'string') return choice
+  return { type: 'tool' as const, toolName: choice.function.name }
+}
+
+function toOutput(request: ChatRequest) {
+  const format = request.responseFormat
+  if (!format) return undefined
+  if (format.type === 'json_object') return Output.json()
+  return Output.object({ schema: jsonSchema(format.json_schema.schema), name: format.json_schema.name })
+}
+
+// The AI SDK uses kebab-case finish reasons; the chat stream uses OpenAI's
+function toFinishReason(reason: string): string {
+  return reason.replace(/-/g, '_')
+}
+
+async function* toChatStreamEvents(fullStream: AsyncIterable<any>, model: string): AsyncGenerator<ChatStreamEvent> {
+  yield { type: 'model', model }
+  // Tool calls arrive complete; number them the way streamed fragments are
+  let toolCallIndex = 0
+
+  for await (const part of fullStream) {
+    switch (part.type) {
+      case 'text-delta':
+        yield { type: 'content', delta: part.text }
+        break
+      case 'reasoning-delta':
+        yield { type: 'reasoning', delta: part.text }
+        break
+      case 'tool-call':
+        yield {
+          type: 'tool_call',
+          index: toolCallIndex++,
+          id: part.toolCallId,
+          name: part.toolName,
+          arguments: JSON.stringify(part.input ?? {}),
+        }
+        break
+      case 'finish':
+        yield { type: 'finish', reason: toFinishReason(part.finishReason) }
+        if (part.totalUsage?.totalTokens !== undefined) {
+          yield {
+            type: 'usage',
+            promptTokens: part.totalUsage.inputTokens ?? 0,
+            completionTokens: part.totalUsage.outputTokens ?? 0,
+            totalTokens: part.totalUsage.totalTokens,
+          }
+        }
+        break
+      case 'error': {
+        const error = part.error as { message?: string; statusCode?: number }
+        console.error('[OpenAI-compatible] Stream error:', part.error)
+        yield { type: 'error', message: error?.message || String(part.error), code: error?.statusCode }
+        return
+      }
+    }
+  }
+}
+
+export function createOpenAICompatibleProvider(baseURL: string | undefined, apiKey: string | undefined): ChatProvider {
+  const getClient = () => {
+    if (!baseURL) {
+      throw new ProviderConfigError('OPENAI_COMPATIBLE_BASE_URL is not configured')
+    }
+    // Local servers usually ignore the key, but the SDK insists on one
+    return createOpenAI({ name: 'openai-compatible', baseURL, apiKey: apiKey || 'not-needed' })
+  }
+
+  const fetchModels = () => {
+    if (!baseURL) {
+      throw new ProviderConfigError('OPENAI_COMPATIBLE_BASE_URL is not configured')
+    }
+    return fetch(`${baseURL.replace(/\/$/, '')}/models`, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    })
+  }
+
+  return {
+    id: 'openai-compatible',
+
+    async streamChat(request: ChatRequest, signal: AbortSignal) {
+      const client = getClient()
+      console.log(`[OpenAI-compatible] Base URL: ${baseURL}`)
+      if (request.fallbackModels?.length) {
+        console.log('[OpenAI-compatible] Fallback models are not supported and will be ignored')
+      }
+      if (request.minP !== undefined || request.repetitionPenalty !== undefined) {
+        console.log('[OpenAI-compatible] min_p and repetition_penalty are not supported and will be ignored')
+      }
+
+      const result = streamText({
+        model: client.chat(request.model),
+        messages: request.messages.map(toModelMessage),
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        topP: request.topP,
+        topK: request.topK,
+        frequencyPenalty: request.frequencyPenalty,
+        presencePenalty: request.presencePenalty,
+        seed: request.seed,
+        stopSequences: typeof request.stop === 'string' ? [request.stop] : request.stop,
+        tools: toToolSet(request),
+        toolChoice: request.tools ? toToolChoice(request.toolChoice) : undefined,
+        output: toOutput(request),
+        providerOptions: request.logitBias ? { openai: { logitBias: request.logitBias } } : undefined,
+        abortSignal: signal,
+      })
+
+      return toChatStreamEvents(result.fullStream, request.model)
+    },
+
+    async complete(request) {
+      const client = getClient()
+      if (!request.model) {
+        throw new ProviderConfigError('A model is required for OpenAI-compatible summaries')
+      }
+      const result = await generateText({
+        model: client.chat(request.model),
+        prompt: request.prompt,
+        temperature: request.temperature,
+      })
+      return {
+        text: result.text,
+        usage: {
+          promptTokens: result.usage.inputTokens ?? 0,
+          completionTokens: result.usage.outputTokens ?? 0,
+          totalTokens: result.usage.totalTokens ?? 0,
+        },
+      }
+    },
+
+    async listModels() {
+      const response = await fetchModels()
+      if (!response.ok) {
+        throw new Error(`Listing models failed: ${response.status} ${response.statusText}`)
+      }
+      const body = (await response.json()) as { data?: { id: string }[] }
+      return (body.data || []).map((model): ModelInfo => ({
+        id: model.id,
+        name: model.id,
+        contextLength: null,
+        maxCompletionTokens: null,
+        pricing: { prompt: 0, completion: 0 },
+        inputModalities: ['text'],
+        outputModalities: ['text'],
+        supportedParameters: SUPPORTED_PARAMETERS,
+      }))
+    },
+
+    // The models endpoint is the one authenticated call every server implements
+    async verifyKey() {
+      const response = await fetchModels()
+      if (response.ok) return { valid: true, message: `Connected to ${baseURL}` }
+      return { valid: false, message: `${response.status} ${response.statusText}` }
+    },
+  }
+}
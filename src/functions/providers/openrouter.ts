@@ -0,0 +1,404 @@
+// src/functions/providers/openrouter.ts
+// OpenRouter through its official SDK. Supports fallback routing, PDF file
+// parts, OpenRouter-only sampling parameters and per-generation cost lookup.
+
+import { OpenRouter } from '@openrouter/sdk'
+import type { ChatMessageContentItem, Message as OpenRouterMessage, Model, ProviderPreferences } from '@openrouter/sdk/models'
+import { SDKHooks } from '@openrouter/sdk/hooks/hooks.js'
+import type { PayloadContentPart, PayloadMessage } from '../../lib/chatPayload'
+import { RETRYABLE_STATUS_CODES, type ChatStreamEvent, type ChatUsage } from '../../lib/chatStream'
+import type { ModelInfo } from '../../lib/modelCatalog'
+import { ProviderConfigError, toText, type ChatProvider, type ChatRequest } from './types'
+
+type FileContentPart = Extract<PayloadContentPart, { type: 'file' }>
+
+// top_k, min_p, repetition_penalty and PDF `file` content parts are OpenRouter
+// features the SDK's request type doesn't model, so they are written into the
+// JSON body just before sending. `fileParts` maps a message index to its files.
+function withExtraChatParams(extra: Record<string, unknown>, fileParts: Map<number, FileContentPart[]>): SDKHooks {
+  const hooks = new SDKHooks()
+  hooks.registerBeforeCreateRequestHook({
+    beforeCreateRequest: (_hookCtx, input) => {
+      const body = input.options?.body
+      if (!input.url.pathname.endsWith('/chat/completions') || typeof body !== 'string') {
+        return input
+      }
+      const parsed = { ...JSON.parse(body), ...extra }
+      fileParts.forEach((parts, index) => {
+        const message = parsed.messages?.[index]
+        if (message && Array.isArray(message.content)) message.content.push(...parts)
+      })
+      return { ...input, options: { ...input.options, body: JSON.stringify(parsed) } }
+    },
+  })
+  return hooks
+}
+
+// The SDK expects camelCase fields for tool calls, tool results and image parts
+function toOpenRouterMessage(msg: PayloadMessage): OpenRouterMessage {
+  switch (msg.role) {
+    case 'tool':
+      return { role: 'tool', content: toText(msg.content), toolCallId: msg.tool_call_id! }
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: toText(msg.content),
+        toolCalls: msg.tool_calls,
+      }
+    case 'system':
+      return { role: 'system', content: toText(msg.content) }
+    default:
+      if (typeof msg.content === 'string') return { role: 'user', content: msg.content }
+      return {
+        role: 'user',
+        // File parts are added by withExtraChatParams
+        content: msg.content.flatMap((part): ChatMessageContentItem[] => {
+          if (part.type === 'text') return [{ type: 'text', text: part.text }]
+          if (part.type === 'image_url') return [{ type: 'image_url', imageUrl: { url: part.image_url.url } }]
+          return []
+        }),
+      }
+  }
+}
+
+function collectFileParts(messages: PayloadMessage[]): Map<number, FileContentPart[]> {
+  const fileParts = new Map<number, FileContentPart[]>()
+  messages.forEach((msg, index) => {
+    if (typeof msg.content === 'string') return
+    const files = msg.content.filter((part): part is FileContentPart => part.type === 'file')
+    if (files.length > 0) fileParts.set(index, files)
+  })
+  return fileParts
+}
+
+// Definitions of subtypes are below
+type Request = {
+    // Either "messages" or "prompt" is required
+    messages?: Message[];
+    prompt?: string;
+  
+    // If "model" is unspecified, uses the user's default
+    model?: string; // See "Supported Models" section
+  
+    // Allows to force the model to produce specific output format.
+    // See models page and note on this docs page for which models support it.
+    response_format?: { type: 'json_object' };
+  
+    stop?: string | string[];
+    stream?: boolean; // Enable streaming
+  
+    // See LLM Parameters (openrouter.ai/docs/api/reference/parameters)
+    max_tokens?: number; // Range: [1, context_length)
+    temperature?: number; // Range: [0, 2]
+  
+    // Tool calling
+    // Will be passed down as-is for providers implementing OpenAI's interface.
+    // For providers with custom interfaces, we transform and map the properties.
+    // Otherwise, we transform the tools into a YAML template. The model responds with an assistant message.
+    // See models supporting tool calling: openrouter.ai/models?supported_parameters=tools
+    tools?: Tool[];
+    tool_choice?: ToolChoice;
+  
+    // Advanced optional parameters
+    seed?: number; // Integer only
+    top_p?: number; // Range: (0, 1]
+    top_k?: number; // Range: [1, Infinity) Not available for OpenAI models
+    frequency_penalty?: number; // Range: [-2, 2]
+    presence_penalty?: number; // Range: [-2, 2]
+    repetition_penalty?: number; // Range: (0, 2]
+    logit_bias?: { [key: number]: number };
+    top_logprobs: number; // Integer only
+    min_p?: number; // Range: [0, 1]
+    top_a?: number; // Range: [0, 1]
+  
+    // Reduce latency by providing the model with a predicted output
+    // https://platform.openai.com/docs/guides/latency-optimization#use-predicted-outputs
+    prediction?: { type: 'content'; content: string };
+  
+    // OpenRouter-only parameters
+    // See "Prompt Transforms" section: openrouter.ai/docs/guides/features/message-transforms
+    transforms?: string[];
+    // See "Model Routing" section: openrouter.ai/docs/guides/features/model-routing
+    models?: string[];
+    route?: 'fallback';
+    // See "Provider Routing" section: openrouter.ai/docs/guides/routing/provider-selection
+    provider?: ProviderPreferences;
+    user?: string; // A stable identifier for your end-users. Used to help detect and prevent abuse.
+    
+    // Debug options (streaming only)
+    debug?: {
+      echo_upstream_body?: boolean; // If true, returns the transformed request body sent to the provider
+    };
+  };
+  
+  // Subtypes:
+  
+  type TextContent = {
+    type: 'text';
+    text: string;
+  };
+  
+  type ImageContentPart = {
+    type: 'image_url';
+    image_url: {
+      url: string; // URL or base64 encoded image data
+      detail?: string; // Optional, defaults to "auto"
+    };
+  };
+  
+  type ContentPart = TextContent | ImageContentPart;
+  
+  type Message =
+    | {
+        role: 'user' | 'assistant' | 'system';
+        // ContentParts are only for the "user" role:
+        content: string | ContentPart[];
+        // If "name" is included, it will be prepended like this
+        // for non-OpenAI models: `{name}: {content}`
+        name?: string;
+      }
+    | {
+        role: 'tool';
+        content: string;
+        tool_call_id: string;
+        name?: string;
+      };
+  
+  type FunctionDescription = {
+    description?: string;
+    name: string;
+    parameters: object; // JSON Schema object
+  };
+  
+  type Tool = {
+    type: 'function';
+    function: FunctionDescription;
+  };
+  
+  type ToolChoice =
+    | 'none'
+    | 'auto'
+    | {
+        type: 'function';
+        function: {
+          name: string;
+        };
+      };
+  
+
+// OpenRouter records the cost of a generation shortly after it finishes; poll briefly for it
+async function fetchGenerationCost(openRouter: OpenRouter, generationId: string): Promise<number | undefined> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const generation = await openRouter.generations.getGeneration({ id: generationId })
+      return generation.data.totalCost
+    } catch (error) {
+      console.log(`[OpenRouter] Generation ${generationId} stats not ready (attempt ${attempt + 1}):`, error)
+      await new Promise((resolve) => setTimeout(resolve, 500 * (attempt + 1)))
+    }
+  }
+  console.error(`[OpenRouter] Could not fetch cost for generation ${generationId}`)
+  return undefined
+}
+
+// Prices come back as USD-per-token decimal strings
+function parsePrice(price: string | undefined): number {
+  const value = parseFloat(price || '0')
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+function toModelInfo(model: Model): ModelInfo {
+  return {
+    id: model.id,
+    name: model.name,
+    description: model.description,
+    contextLength: model.contextLength ?? model.topProvider.contextLength ?? null,
+    maxCompletionTokens: model.topProvider.maxCompletionTokens ?? null,
+    pricing: {
+      prompt: parsePrice(model.pricing.prompt),
+      completion: parsePrice(model.pricing.completion),
+    },
+    inputModalities: model.architecture.inputModalities.map(String),
+    outputModalities: model.architecture.outputModalities.map(String),
+    supportedParameters: model.supportedParameters.map(String),
+  }
+}
+
+function requireApiKey(apiKey: string | undefined): string {
+  if (!apiKey) {
+    console.error('[OpenRouter] OPENROUTER_API_KEY not found in env')
+    throw new ProviderConfigError('OPENROUTER_API_KEY is not configured')
+  }
+  if (apiKey.trim() === '' || apiKey === 'your-new-api-key-here') {
+    throw new ProviderConfigError('Invalid API key - please set a valid OpenRouter API key in .dev.vars')
+  }
+  return apiKey.trim()
+}
+
+// Map SDK stream chunks to chat stream events; the usage event (with the
+// looked-up cost) is emitted once the upstream stream has ended
+async function* toChatStreamEvents(
+  stream: AsyncIterable<any>,
+  openRouter: OpenRouter,
+  signal: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  let reportedModel = false
+  let generationId: string | undefined
+  let usage: ChatUsage | undefined
+
+  for await (const chunk of stream) {
+    if (signal.aborted) return
+    generationId = generationId || chunk.id
+    if (!reportedModel && chunk.model) {
+      reportedModel = true
+      yield { type: 'model', model: chunk.model }
+    }
+
+    if (chunk.error) {
+      console.error('[OpenRouter] Upstream error chunk:', chunk.error)
+      yield { type: 'error', message: chunk.error.message, code: chunk.error.code }
+      return
+    }
+
+    const choice = chunk.choices?.[0]
+    const delta = choice?.delta
+    if (delta?.reasoning) {
+      yield { type: 'reasoning', delta: delta.reasoning }
+    }
+    if (delta?.content) {
+      yield { type: 'content', delta: delta.content }
+    }
+    for (const toolCall of delta?.toolCalls || []) {
+      yield {
+        type: 'tool_call',
+        index: toolCall.index,
+        id: toolCall.id,
+        name: toolCall.function?.name,
+        arguments: toolCall.function?.arguments,
+      }
+    }
+
+    if (choice?.finishReason) {
+      yield { type: 'finish', reason: choice.finishReason }
+    }
+
+    if (chunk.usage) {
+      usage = {
+        promptTokens: chunk.usage.promptTokens,
+        completionTokens: chunk.usage.completionTokens,
+        totalTokens: chunk.usage.totalTokens,
+      }
+    }
+  }
+
+  // Token counts arrive in the last chunk; the cost has to be looked up afterwards
+  if (usage && !signal.aborted) {
+    const cost = generationId ? await fetchGenerationCost(openRouter, generationId) : undefined
+    yield { type: 'usage', ...usage, cost }
+  }
+}
+
+export function createOpenRouterProvider(apiKey: string | undefined): ChatProvider {
+  return {
+    id: 'openrouter',
+
+    async streamChat(request: ChatRequest, signal: AbortSignal) {
+      const key = requireApiKey(apiKey)
+
+      const fileParts = collectFileParts(request.messages)
+      const extraParams = Object.fromEntries(
+        Object.entries({ top_k: request.topK, min_p: request.minP, repetition_penalty: request.repetitionPenalty })
+          .filter(([, value]) => value !== undefined)
+      )
+
+      // Create OpenRouter client with the API key
+      const openRouter = new OpenRouter({
+        apiKey: key,
+        hooks: Object.keys(extraParams).length > 0 || fileParts.size > 0 ? withExtraChatParams(extraParams, fileParts) : undefined,
+      })
+      console.log('[OpenRouter] Client initialized successfully')
+
+      const stream = await openRouter.chat.send({
+        model: request.model,
+        // OpenRouter tries the listed models in order if the primary one errors
+        ...(request.fallbackModels?.length
+          ? { models: [request.model, ...request.fallbackModels], route: 'fallback' as const }
+          : {}),
+        messages: request.messages.map(toOpenRouterMessage),
+        stream: true,
+        temperature: request.temperature,
+        tools: request.tools,
+        toolChoice: request.tools ? request.toolChoice : undefined,
+        responseFormat: request.responseFormat?.type === 'json_schema'
+          ? { type: 'json_schema', jsonSchema: request.responseFormat.json_schema }
+          : request.responseFormat,
+        maxTokens: request.maxTokens,
+        topP: request.topP,
+        frequencyPenalty: request.frequencyPenalty,
+        presencePenalty: request.presencePenalty,
+        seed: request.seed,
+        stop: request.stop,
+        logitBias: request.logitBias,
+        // Ask for a final usage chunk so token counts can be reported
+        streamOptions: { includeUsage: true },
+      }, {
+        signal,
+        // Transient failures before the stream starts are retried here;
+        // failures mid-stream are reported in-band and handled by the client
+        retries: {
+          strategy: 'backoff',
+          backoff: { initialInterval: 500, maxInterval: 4000, exponent: 2, maxElapsedTime: 15000 },
+          retryConnectionErrors: true,
+        },
+        retryCodes: RETRYABLE_STATUS_CODES.map(String),
+      })
+
+      return toChatStreamEvents(stream, openRouter, signal)
+    },
+
+    async complete(request) {
+      const openRouter = new OpenRouter({ apiKey: requireApiKey(apiKey) })
+      const response = await openRouter.chat.send({
+        model: request.model || 'anthropic/claude-haiku-4.5',
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false,
+        temperature: request.temperature,
+      })
+
+      const content = response.choices?.[0]?.message?.content
+      let usage: ChatUsage | undefined
+      if (response.usage) {
+        usage = {
+          promptTokens: response.usage.promptTokens,
+          completionTokens: response.usage.completionTokens,
+          totalTokens: response.usage.totalTokens,
+          cost: await fetchGenerationCost(openRouter, response.id),
+        }
+      }
+      return { text: typeof content === 'string' ? content : '', usage }
+    },
+
+    async listModels() {
+      // The models endpoint is public, but send the key when we have one
+      const openRouter = new OpenRouter({ apiKey: apiKey?.trim() })
+      const response = await openRouter.models.list()
+      return response.data
+        // Only models that can answer a chat conversation with text
+        .filter((model) => model.architecture.outputModalities.map(String).includes('text'))
+        .map(toModelInfo)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    },
+
+    async verifyKey() {
+      const openRouter = new OpenRouter({ apiKey: requireApiKey(apiKey) })
+      try {
+        const { data } = await openRouter.apiKeys.getCurrentKeyMetadata()
+        const limit = data.limit === null ? 'no limit' : `$${data.limit.toFixed(2)} limit`
+        return { valid: true, message: `${data.label} · $${data.usage.toFixed(2)} used, ${limit}` }
+      } catch (error: any) {
+        console.log('[OpenRouter] Key check failed:', error?.message || error)
+        return { valid: false, message: error?.message || String(error) }
+      }
+    },
+  }
+}
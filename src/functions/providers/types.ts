@@ -0,0 +1,85 @@
+// src/functions/providers/types.ts
+// The provider-neutral request every adapter accepts. Field names follow the
+// OpenAI-style payload the client sends (see lib/chatPayload.ts); adapters
+// translate it into whatever their upstream API expects.
+
+import type { PayloadMessage } from '../../lib/chatPayload'
+import type { ChatStreamEvent, ChatUsage } from '../../lib/chatStream'
+import type { ModelInfo } from '../../lib/modelCatalog'
+import type { ProviderId } from '../../lib/providers'
+
+export interface ChatTool {
+  type: 'function'
+  function: { name: string; description?: string; parameters: Record<string, unknown> }
+}
+
+export type ChatToolChoice = 'none' | 'auto' | { type: 'function'; function: { name: string } }
+
+export type ChatResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; strict?: boolean; schema: Record<string, unknown> } }
+
+export interface ChatRequest {
+  model: string
+  // Tried in order when `model` is unavailable; only OpenRouter routes them
+  fallbackModels?: string[]
+  messages: PayloadMessage[]
+  temperature?: number
+  tools?: ChatTool[]
+  toolChoice?: ChatToolChoice
+  responseFormat?: ChatResponseFormat
+  maxTokens?: number
+  topP?: number
+  topK?: number
+  frequencyPenalty?: number
+  presencePenalty?: number
+  repetitionPenalty?: number
+  minP?: number
+  seed?: number
+  stop?: string | string[]
+  logitBias?: Record<string, number>
+}
+
+// A single non-streamed completion, used for summaries
+export interface CompletionRequest {
+  model?: string
+  prompt: string
+  temperature?: number
+}
+
+export interface CompletionResult {
+  text: string
+  usage?: ChatUsage
+}
+
+export interface ChatProvider {
+  id: ProviderId
+  // Resolves once the upstream accepted the request; failures before that are
+  // thrown, failures afterwards arrive as an 'error' event. Aborting `signal`
+  // stops the upstream request.
+  streamChat(request: ChatRequest, signal: AbortSignal): Promise<AsyncIterable<ChatStreamEvent>>
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  listModels(): Promise<ModelInfo[]>
+  // Asks the upstream whether the configured key works, without spending tokens
+  verifyKey(): Promise<KeyCheckResult>
+}
+
+export interface KeyCheckResult {
+  valid: boolean
+  // Upstream's reason for rejecting the key, or details about an accepted one
+  message?: string
+}
+
+// Thrown when a provider is selected but the server has no configuration for it
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderConfigError'
+  }
+}
+
+// Only plain text travels in non-user messages
+export function toText(content: PayloadMessage['content']): string {
+  if (typeof content === 'string') return content
+  return content.map((part) => (part.type === 'text' ? part.text : '')).join('\n\n')
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Node } from '@xyflow/react'
+import type { RemoteWorkbench, WorkbenchUpdate } from '../../lib/workbenchSync'
+
+// Only provided inside the Workers runtime
+vi.mock('cloudflare:workers', () => ({ env: {} }))
+
+import { applyWorkbenchUpdate, newRemoteWorkbench, updateWorkbench } from './index'
+import { createMemoryWorkbenchStore } from './memory'
+
+const node = (id: string, label: string): Node => ({ id, type: 'chatNode', position: { x: 0, y: 0 }, data: { label } })
+
+const WORKBENCH_ID = '0b8c6a55-3f41-4a8e-9a59-0f6f4b1c2d3e'
+
+function createStored(): RemoteWorkbench {
+  return newRemoteWorkbench({
+    id: WORKBENCH_ID,
+    name: 'Research',
+    budget: null,
+    nodeIdCounter: 3,
+    nodes: [node('1', 'a'), node('2', 'b')],
+    edges: [],
+  })
+}
+
+const entity = (workbench: RemoteWorkbench, id: string) => workbench.entities.find((e) => e.kind === 'node' && e.id === id)
+
+describe('applyWorkbenchUpdate', () => {
+  it('applies changes based on the current revision and bumps only those entities', () => {
+    const stored = createStored()
+    const { workbench, conflicts } = applyWorkbenchUpdate(stored, {
+      changes: [{ kind: 'node', id: '1', baseRevision: 1, data: node('1', 'a2') }],
+    })
+
+    expect(conflicts).toEqual([])
+    expect(workbench.revision).toBe(2)
+    expect(entity(workbench, '1')).toMatchObject({ revision: 2, data: { data: { label: 'a2' } } })
+    expect(entity(workbench, '2')).toMatchObject({ revision: 1 })
+  })
+
+  it('refuses a change whose entity moved on since its base revision', () => {
+    const first = applyWorkbenchUpdate(createStored(), {
+      changes: [{ kind: 'node', id: '1', baseRevision: 1, data: node('1', 'from A') }],
+    }).workbench
+    const { workbench, conflicts } = applyWorkbenchUpdate(first, {
+      changes: [
+        { kind: 'node', id: '1', baseRevision: 1, data: node('1', 'from B') },
+        { kind: 'node', id: '2', baseRevision: 1, data: node('2', 'from B') },
+      ],
+    })
+
+    expect(conflicts).toEqual([{ kind: 'node', id: '1' }])
+    expect(entity(workbench, '1')?.data).toMatchObject({ data: { label: 'from A' } })
+    expect(entity(workbench, '2')).toMatchObject({ revision: 3, data: { data: { label: 'from B' } } })
+  })
+
+  it('does not count a resent change the server already has as a conflict', () => {
+    const update: WorkbenchUpdate = { changes: [{ kind: 'node', id: '1', baseRevision: 1, data: node('1', 'a2') }] }
+    const first = applyWorkbenchUpdate(createStored(), update).workbench
+    const again = applyWorkbenchUpdate(first, update)
+
+    expect(again.conflicts).toEqual([])
+    expect(again.workbench).toBe(first)
+  })
+
+  it('keeps deletions as tombstones and new entities start at the new revision', () => {
+    const { workbench } = applyWorkbenchUpdate(createStored(), {
+      nodeIdCounter: 4,
+      changes: [
+        { kind: 'node', id: '2', baseRevision: 1, data: null },
+        { kind: 'node', id: '3', baseRevision: null, data: node('3', 'c') },
+      ],
+    })
+
+    expect(entity(workbench, '2')).toMatchObject({ revision: 2, data: null })
+    expect(entity(workbench, '3')).toMatchObject({ revision: 2 })
+    expect(workbench.nodeIdCounter).toBe(4)
+  })
+
+  it('never lowers the node id counter', () => {
+    const { workbench } = applyWorkbenchUpdate(createStored(), { nodeIdCounter: 1, name: 'Renamed', changes: [] })
+    expect(workbench.nodeIdCounter).toBe(3)
+    expect(workbench.name).toBe('Renamed')
+  })
+})
+
+describe('updateWorkbench', () => {
+  it('returns null for workbenches the owner does not have', async () => {
+    const store = createMemoryWorkbenchStore()
+    await store.create('alice', createStored())
+    expect(await updateWorkbench(store, 'bob', WORKBENCH_ID, { changes: [] })).toBeNull()
+  })
+
+  it('retries against the fresh revision when another update lands first', async () => {
+    const store = createMemoryWorkbenchStore()
+    await store.create('alice', createStored())
+
+    // The first compare-and-swap loses to an update of node 2 from another device
+    const replace = store.replace.bind(store)
+    let raced = false
+    store.replace = async (ownerId, workbench, expectedRevision) => {
+      if (!raced) {
+        raced = true
+        const current = (await store.get(ownerId, WORKBENCH_ID))!
+        const other = applyWorkbenchUpdate(current, {
+          changes: [{ kind: 'node', id: '2', baseRevision: 1, data: node('2', 'other device') }],
+        })
+        await replace(ownerId, other.workbench, current.revision)
+      }
+      return replace(ownerId, workbench, expectedRevision)
+    }
+
+    const result = await updateWorkbench(store, 'alice', WORKBENCH_ID, {
+      changes: [{ kind: 'node', id: '1', baseRevision: 1, data: node('1', 'this device') }],
+    })
+
+    expect(result?.conflicts).toEqual([])
+    const stored = (await store.get('alice', WORKBENCH_ID))!
+    expect(stored.revision).toBe(3)
+    expect(entity(stored, '1')?.data).toMatchObject({ data: { label: 'this device' } })
+    expect(entity(stored, '2')?.data).toMatchObject({ data: { label: 'other device' } })
+  })
+})
@@ -0,0 +1,147 @@
+// src/functions/workbenches/index.ts
+// Server-side workbench storage behind the /api/workbenches routes.
+//
+//   WORKBENCH_DB   optional D1 (SQLite) binding; without it workbenches are
+//                  kept in memory, which is enough for local runs
+
+import { env } from "cloudflare:workers";
+import type { Edge, Node } from '@xyflow/react'
+import { z } from 'zod'
+import {
+  getEntityKey,
+  type RemoteWorkbench,
+  type SyncEntity,
+  type WorkbenchUpdate,
+  type WorkbenchUpdateResult,
+} from '../../lib/workbenchSync'
+import { createMemoryWorkbenchStore } from './memory'
+import { createSqliteWorkbenchStore } from './sqlite'
+import type { WorkbenchStore } from './types'
+
+// Concurrent updates to one canvas retry against the fresh revision
+const MAX_UPDATE_ATTEMPTS = 5
+
+let memoryStore: WorkbenchStore | null = null
+
+export function getWorkbenchStore(): WorkbenchStore {
+  if (env.WORKBENCH_DB) return createSqliteWorkbenchStore(env.WORKBENCH_DB)
+  memoryStore = memoryStore || createMemoryWorkbenchStore()
+  return memoryStore
+}
+
+// React Flow objects are stored as sent; only their ids are relied on
+const entityDataSchema = z.looseObject({ id: z.string().min(1).max(200) })
+
+const entityKindSchema = z.enum(['node', 'edge'])
+
+export const createWorkbenchSchema = z.object({
+  id: z.uuid(),
+  name: z.string().trim().min(1).max(200),
+  budget: z.number().min(0).nullable().default(null),
+  nodeIdCounter: z.number().int().min(0),
+  nodes: z.array(entityDataSchema).max(1000),
+  edges: z.array(entityDataSchema).max(5000),
+})
+
+export const workbenchUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  budget: z.number().min(0).nullable().optional(),
+  nodeIdCounter: z.number().int().min(0).optional(),
+  changes: z
+    .array(
+      z.object({
+        kind: entityKindSchema,
+        id: z.string().min(1).max(200),
+        baseRevision: z.number().int().min(0).nullable(),
+        data: entityDataSchema.nullable(),
+      })
+    )
+    .max(6000),
+})
+
+export function newRemoteWorkbench(input: z.infer<typeof createWorkbenchSchema>): RemoteWorkbench {
+  const now = Date.now()
+  const revision = 1
+  return {
+    id: input.id,
+    name: input.name,
+    budget: input.budget,
+    nodeIdCounter: input.nodeIdCounter,
+    revision,
+    entities: [
+      ...input.nodes.map((data): SyncEntity => ({ kind: 'node', id: data.id, revision, data: data as unknown as Node })),
+      ...input.edges.map((data): SyncEntity => ({ kind: 'edge', id: data.id, revision, data: data as unknown as Edge })),
+    ],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+// Apply the changes whose base revision still matches; the rest are conflicts.
+// Re-sending a change the server already has (same data) is not a conflict.
+// An update that changes nothing returns `stored` itself.
+export function applyWorkbenchUpdate(stored: RemoteWorkbench, update: WorkbenchUpdate): WorkbenchUpdateResult {
+  const revision = stored.revision + 1
+  const entities = new Map(stored.entities.map((entity) => [getEntityKey(entity.kind, entity.id), entity]))
+  const conflicts: WorkbenchUpdateResult['conflicts'] = []
+  let applied = 0
+
+  for (const change of update.changes) {
+    const key = getEntityKey(change.kind, change.id)
+    const current = entities.get(key)
+    if ((current?.revision ?? null) !== change.baseRevision) {
+      if (JSON.stringify(current?.data ?? null) !== JSON.stringify(change.data)) {
+        conflicts.push({ kind: change.kind, id: change.id })
+      }
+      continue
+    }
+    entities.set(key, { kind: change.kind, id: change.id, revision, data: change.data })
+    applied++
+  }
+
+  const name = update.name ?? stored.name
+  const budget = update.budget !== undefined ? update.budget : stored.budget
+  const nodeIdCounter = Math.max(stored.nodeIdCounter, update.nodeIdCounter ?? 0)
+  if (applied === 0 && name === stored.name && budget === stored.budget && nodeIdCounter === stored.nodeIdCounter) {
+    return { workbench: stored, conflicts }
+  }
+
+  return {
+    workbench: {
+      ...stored,
+      name,
+      budget,
+      nodeIdCounter,
+      revision,
+      entities: [...entities.values()],
+      updatedAt: Date.now(),
+    },
+    conflicts,
+  }
+}
+
+// Null when the owner has no such workbench
+export async function updateWorkbench(
+  store: WorkbenchStore,
+  ownerId: string,
+  id: string,
+  update: WorkbenchUpdate
+): Promise<WorkbenchUpdateResult | null> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const stored = await store.get(ownerId, id)
+    if (!stored) return null
+
+    const result = applyWorkbenchUpdate(stored, update)
+    if (result.workbench === stored) return result
+    if (await store.replace(ownerId, result.workbench, stored.revision)) {
+      console.log(
+        `[Workbenches] ${id} revision ${result.workbench.revision}: ${update.changes.length - result.conflicts.length} changes applied, ${result.conflicts.length} conflicts`
+      )
+      return result
+    }
+    console.log(`[Workbenches] ${id} changed during update, retrying (attempt ${attempt + 1})`)
+  }
+  throw new Error(`Workbench ${id} is being updated too often, try again`)
+}
+
+export type { WorkbenchStore } from './types'
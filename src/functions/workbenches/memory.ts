@@ -0,0 +1,51 @@
+// src/functions/workbenches/memory.ts
+// Process-memory store for development; everything is lost on restart.
+
+import type { RemoteWorkbench } from '../../lib/workbenchSync'
+import type { WorkbenchStore } from './types'
+
+export function createMemoryWorkbenchStore(): WorkbenchStore {
+  // Kept as JSON so callers can't mutate stored state through shared references
+  const workbenches = new Map<string, Map<string, string>>()
+
+  const getOwned = (ownerId: string) => {
+    let owned = workbenches.get(ownerId)
+    if (!owned) {
+      owned = new Map()
+      workbenches.set(ownerId, owned)
+    }
+    return owned
+  }
+
+  return {
+    async list(ownerId) {
+      return [...getOwned(ownerId).values()]
+        .map((json) => JSON.parse(json) as RemoteWorkbench)
+        .map(({ id, name, revision, updatedAt }) => ({ id, name, revision, updatedAt }))
+    },
+
+    async get(ownerId, id) {
+      const json = getOwned(ownerId).get(id)
+      return json ? (JSON.parse(json) as RemoteWorkbench) : null
+    },
+
+    async create(ownerId, workbench) {
+      const owned = getOwned(ownerId)
+      if (owned.has(workbench.id)) return false
+      owned.set(workbench.id, JSON.stringify(workbench))
+      return true
+    },
+
+    async replace(ownerId, workbench, expectedRevision) {
+      const owned = getOwned(ownerId)
+      const json = owned.get(workbench.id)
+      if (!json || (JSON.parse(json) as RemoteWorkbench).revision !== expectedRevision) return false
+      owned.set(workbench.id, JSON.stringify(workbench))
+      return true
+    },
+
+    async delete(ownerId, id) {
+      return getOwned(ownerId).delete(id)
+    },
+  }
+}
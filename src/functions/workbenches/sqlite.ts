@@ -0,0 +1,84 @@
+// src/functions/workbenches/sqlite.ts
+// SQLite store on a Cloudflare D1 binding. `wrangler dev` backs D1 with a
+// local SQLite file, so the same code runs locally and deployed. A canvas is
+// one row; the revision column makes replace() a compare-and-swap.
+
+import type { RemoteWorkbench } from '../../lib/workbenchSync'
+import type { WorkbenchStore } from './types'
+
+const SCHEMA = `CREATE TABLE IF NOT EXISTS workbenches (
+  owner_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  PRIMARY KEY (owner_id, id)
+)`
+
+interface SummaryRow {
+  id: string
+  name: string
+  revision: number
+  updated_at: number
+}
+
+export function createSqliteWorkbenchStore(db: D1Database): WorkbenchStore {
+  // Created on first use rather than through a migration step
+  let schemaReady: Promise<unknown> | null = null
+  const ready = () => {
+    schemaReady = schemaReady || db.prepare(SCHEMA).run().catch((error) => {
+      schemaReady = null
+      throw error
+    })
+    return schemaReady
+  }
+
+  return {
+    async list(ownerId) {
+      await ready()
+      const { results } = await db
+        .prepare('SELECT id, name, revision, updated_at FROM workbenches WHERE owner_id = ? ORDER BY updated_at DESC')
+        .bind(ownerId)
+        .all<SummaryRow>()
+      return results.map((row) => ({ id: row.id, name: row.name, revision: row.revision, updatedAt: row.updated_at }))
+    },
+
+    async get(ownerId, id) {
+      await ready()
+      const row = await db
+        .prepare('SELECT body FROM workbenches WHERE owner_id = ? AND id = ?')
+        .bind(ownerId, id)
+        .first<{ body: string }>()
+      return row ? (JSON.parse(row.body) as RemoteWorkbench) : null
+    },
+
+    async create(ownerId, workbench) {
+      await ready()
+      const result = await db
+        .prepare(
+          'INSERT OR IGNORE INTO workbenches (owner_id, id, name, revision, updated_at, body) VALUES (?, ?, ?, ?, ?, ?)'
+        )
+        .bind(ownerId, workbench.id, workbench.name, workbench.revision, workbench.updatedAt, JSON.stringify(workbench))
+        .run()
+      return result.meta.changes > 0
+    },
+
+    async replace(ownerId, workbench, expectedRevision) {
+      await ready()
+      const result = await db
+        .prepare(
+          'UPDATE workbenches SET name = ?, revision = ?, updated_at = ?, body = ? WHERE owner_id = ? AND id = ? AND revision = ?'
+        )
+        .bind(workbench.name, workbench.revision, workbench.updatedAt, JSON.stringify(workbench), ownerId, workbench.id, expectedRevision)
+        .run()
+      return result.meta.changes > 0
+    },
+
+    async delete(ownerId, id) {
+      await ready()
+      const result = await db.prepare('DELETE FROM workbenches WHERE owner_id = ? AND id = ?').bind(ownerId, id).run()
+      return result.meta.changes > 0
+    },
+  }
+}
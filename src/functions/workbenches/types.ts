@@ -0,0 +1,13 @@
+// src/functions/workbenches/types.ts
+import type { RemoteWorkbench, WorkbenchSummary } from '../../lib/workbenchSync'
+
+// Every method is scoped to one owner; a workbench is invisible to anyone else
+export interface WorkbenchStore {
+  list(ownerId: string): Promise<WorkbenchSummary[]>
+  get(ownerId: string, id: string): Promise<RemoteWorkbench | null>
+  // False when the owner already has a workbench with this id
+  create(ownerId: string, workbench: RemoteWorkbench): Promise<boolean>
+  // Compare-and-swap: false when the stored revision is no longer `expectedRevision`
+  replace(ownerId: string, workbench: RemoteWorkbench, expectedRevision: number): Promise<boolean>
+  delete(ownerId: string, id: string): Promise<boolean>
+}
@@ -0,0 +1,72 @@
+// src/lib/apiKeys.ts
+// Users' own provider API keys. Keys are encrypted with AES-GCM before they
+// are written to IndexedDB; the AES key itself is non-extractable, so the
+// stored keys can only be decrypted by this origin's scripts, never read from
+// a copy of the database. Decrypted keys are sent with each request and the
+// server prefers them over its shared key (see functions/providers/index.ts).
+
+import { db } from './db'
+import { isKeyedProvider, type KeyedProviderId, type ProviderId } from './providers'
+
+const SECRET_KEY_ID = 'apiKeys'
+
+// Shared so concurrent first uses don't each generate (and overwrite) a key.
+// Keyed by database name: each signed-in user has their own database and key.
+const secretKeyPromises = new Map<string, Promise<CryptoKey>>()
+
+function getSecretKey(): Promise<CryptoKey> {
+  const userDb = db
+  let promise = secretKeyPromises.get(userDb.name)
+  if (!promise) {
+    promise = (async () => {
+      const existing = await userDb.secretKeys.get(SECRET_KEY_ID)
+      if (existing) return existing.key
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+      await userDb.secretKeys.put({ id: SECRET_KEY_ID, key })
+      return key
+    })().catch((error) => {
+      secretKeyPromises.delete(userDb.name)
+      throw error
+    })
+    secretKeyPromises.set(userDb.name, promise)
+  }
+  return promise
+}
+
+export interface StoredApiKey {
+  provider: KeyedProviderId
+  hint: string
+  updatedAt: number
+}
+
+export async function listApiKeys(): Promise<StoredApiKey[]> {
+  const records = await db.apiKeys.toArray()
+  return records.map(({ provider, hint, updatedAt }) => ({ provider: provider as KeyedProviderId, hint, updatedAt }))
+}
+
+export async function saveApiKey(provider: KeyedProviderId, apiKey: string): Promise<void> {
+  const key = await getSecretKey()
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey))
+  await db.apiKeys.put({ provider, iv, ciphertext, hint: apiKey.slice(-4), updatedAt: Date.now() })
+}
+
+export async function deleteApiKey(provider: KeyedProviderId): Promise<void> {
+  await db.apiKeys.delete(provider)
+}
+
+// The user's key for `provider`, or undefined to use the server's shared key.
+// A key that no longer decrypts (e.g. site data partly cleared) counts as unset.
+export async function getApiKey(provider: ProviderId): Promise<string | undefined> {
+  if (!isKeyedProvider(provider)) return undefined
+  const record = await db.apiKeys.get(provider)
+  if (!record) return undefined
+  try {
+    const key = await getSecretKey()
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, key, record.ciphertext)
+    return new TextDecoder().decode(plaintext)
+  } catch (error) {
+    console.error(`Failed to decrypt the ${provider} API key:`, error)
+    return undefined
+  }
+}
@@ -0,0 +1,100 @@
+// src/lib/attachments.ts
+// Files attached to user messages. Images and PDFs are kept as data URLs so they
+// persist with the conversation; text and code files are kept as text and
+// inlined into the message when it is sent.
+
+export type AttachmentKind = 'image' | 'pdf' | 'text'
+
+export interface Attachment {
+  id: string
+  name: string
+  mimeType: string
+  kind: AttachmentKind
+  size: number
+  // Images and PDFs
+  dataUrl?: string
+  // Text and code files
+  text?: string
+}
+
+// Everything is stored in IndexedDB with the workbench, so keep files modest
+export const MAX_ATTACHMENT_BYTES: Record<AttachmentKind, number> = {
+  image: 5 * 1024 * 1024,
+  pdf: 10 * 1024 * 1024,
+  text: 512 * 1024,
+}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+
+// Code files often arrive with an empty or generic MIME type
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'xml', 'html', 'css', 'scss',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'graphql', 'ini', 'env', 'log', 'vue', 'svelte',
+]
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+export function getAttachmentKind(file: File): AttachmentKind | null {
+  if (IMAGE_TYPES.includes(file.type)) return 'image'
+  if (file.type === 'application/pdf') return 'pdf'
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text'
+  return null
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  const kind = getAttachmentKind(file)
+  if (!kind) {
+    throw new AttachmentError(`${file.name}: only images, PDFs and text or code files can be attached`)
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES[kind]) {
+    throw new AttachmentError(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES[kind])}`)
+  }
+
+  const attachment: Attachment = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    // Pasted screenshots have no useful name
+    name: file.name || `pasted-image.${file.type.split('/')[1] || 'png'}`,
+    mimeType: file.type || 'text/plain',
+    kind,
+    size: file.size,
+  }
+  if (kind === 'text') {
+    attachment.text = await file.text()
+  } else {
+    attachment.dataUrl = await readAsDataUrl(file)
+  }
+  return attachment
+}
+
+// Text files go into the message body as fenced blocks after the user's text
+export function formatTextAttachments(attachments: Attachment[]): string {
+  return attachments
+    .filter((attachment) => attachment.kind === 'text')
+    .map((attachment) => {
+      const language = attachment.name.split('.').pop() || ''
+      return `Attached file \`${attachment.name}\`:\n\n\`\`\`${language}\n${attachment.text || ''}\n\`\`\``
+    })
+    .join('\n\n')
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,118 @@
+// src/lib/chatPayload.ts
+// Converts ChatNode state into the OpenAI-style shapes sendChatMessage accepts
+
+import type { Message, ReplyReference, ToolChoice, ToolDefinition } from './chatTypes'
+import { formatTextAttachments } from './attachments'
+
+// User content with attachments is sent as parts (OpenRouter's multimodal format)
+export type PayloadContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } }
+
+export interface PayloadMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool'
+  content: string | PayloadContentPart[]
+  tool_calls?: {
+    id: string
+    type: 'function'
+    function: { name: string; arguments: string }
+  }[]
+  tool_call_id?: string
+  name?: string
+}
+
+// Longer quotes are cut; the model only needs enough to identify the passage
+const MAX_QUOTE_LENGTH = 500
+
+// Replies are sent as Markdown quotes ahead of the user's text:
+//
+//   > [Replying to assistant message]
+//   > first lines of the quoted message…
+//
+//   The user's own message
+export function formatReplyQuotes(replyTo: ReplyReference[]): string {
+  return replyTo
+    .map((reply) => {
+      const excerpt = reply.content.length > MAX_QUOTE_LENGTH
+        ? `${reply.content.slice(0, MAX_QUOTE_LENGTH)}…`
+        : reply.content
+      const quoted = excerpt.split('\n').map((line) => `> ${line}`).join('\n')
+      return `> [Replying to ${reply.role} message]\n${quoted}`
+    })
+    .join('\n\n')
+}
+
+// Text files are inlined; images become image_url parts when the model accepts
+// images (otherwise a note says they were left out) and PDFs become file parts
+function toUserContent(m: Message, supportsImages: boolean): string | PayloadContentPart[] {
+  const quotes = m.replyTo?.length ? `${formatReplyQuotes(m.replyTo)}\n\n` : ''
+  const attachments = m.attachments || []
+  const images = attachments.filter((attachment) => attachment.kind === 'image')
+  const pdfs = attachments.filter((attachment) => attachment.kind === 'pdf')
+
+  const notes = !supportsImages && images.length > 0
+    ? [`[${images.length} attached image${images.length === 1 ? '' : 's'} left out: this model does not accept images]`]
+    : []
+  const text = [quotes + m.content, formatTextAttachments(attachments), ...notes].filter(Boolean).join('\n\n')
+
+  const parts: PayloadContentPart[] = [
+    ...(supportsImages ? images : []).map((image) => ({ type: 'image_url' as const, image_url: { url: image.dataUrl! } })),
+    ...pdfs.map((pdf) => ({ type: 'file' as const, file: { filename: pdf.name, file_data: pdf.dataUrl! } })),
+  ]
+  return parts.length > 0 ? [{ type: 'text', text }, ...parts] : text
+}
+
+export function toPayloadMessages(messages: Message[], options: { supportsImages?: boolean } = {}): PayloadMessage[] {
+  const supportsImages = options.supportsImages ?? true
+  // Replies that failed before producing anything have nothing to send,
+  // live-context markers only exist for the reader, and compared replies
+  // count only once one of them is kept
+  const sendable = messages.filter(
+    (m) =>
+      !m.contextEvent && !m.compareGroup && !(m.role === 'assistant' && m.error && !m.content && !m.toolCalls?.length)
+  )
+  return sendable.map((m) => {
+    if (m.role === 'tool') {
+      return { role: 'tool', content: m.content, tool_call_id: m.toolCallId, name: m.name }
+    }
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content,
+        tool_calls: m.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      }
+    }
+    if (m.role === 'user' && (m.replyTo?.length || m.attachments?.length)) {
+      return { role: 'user', content: toUserContent(m, supportsImages) }
+    }
+    return { role: m.role, content: m.content }
+  })
+}
+
+// The node's system prompt always leads the payload
+export function withSystemPrompt(messages: PayloadMessage[], systemPrompt: string): PayloadMessage[] {
+  if (!systemPrompt.trim()) return messages
+  return [{ role: 'system', content: systemPrompt }, ...messages]
+}
+
+export function toPayloadTools(tools: ToolDefinition[]) {
+  if (tools.length === 0) return undefined
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description || undefined,
+      parameters: tool.parameters,
+    },
+  }))
+}
+
+export function toPayloadToolChoice(toolChoice: ToolChoice) {
+  if (typeof toolChoice === 'string') return toolChoice
+  return { type: 'function' as const, function: { name: toolChoice.name } }
+}
@@ -0,0 +1,169 @@
+// src/lib/chatStream.ts
+//
+// Streaming protocol between sendChatMessage and the client.
+//
+// The response body is newline-delimited JSON (application/x-ndjson): one
+// ChatStreamEvent object per line, in the order the upstream chunks arrived.
+//
+//   {"type":"model","model":"anthropic/claude-haiku-4.5"}   model that actually served the request
+//   {"type":"reasoning","delta":"..."}                      reasoning/thinking tokens
+//   {"type":"content","delta":"..."}                        answer text
+//   {"type":"tool_call","index":0,"id":"call_1","name":"get_weather","arguments":"{\"ci"}
+//   {"type":"usage","promptTokens":12,"completionTokens":40,"totalTokens":52,"cost":0.00021}
+//   {"type":"finish","reason":"stop"}                       stop | length | tool_calls | content_filter | error
+//   {"type":"error","message":"...","code":502}             upstream failed mid-stream; no events follow
+//
+// Errors raised before the stream opens are thrown by the server function instead.
+
+import type { Message, MessageUsage, ToolCall } from './chatTypes'
+
+export type ChatUsage = MessageUsage
+
+export type ChatStreamEvent =
+  | { type: 'model'; model: string }
+  | { type: 'reasoning'; delta: string }
+  | { type: 'content'; delta: string }
+  // Partial tool call; fragments sharing an index belong to the same call
+  | { type: 'tool_call'; index: number; id?: string; name?: string; arguments?: string }
+  | ({ type: 'usage' } & ChatUsage)
+  | { type: 'finish'; reason: string }
+  | { type: 'error'; message: string; code?: number }
+
+// HTTP statuses worth retrying: timeouts, rate limits and upstream outages
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+
+export function isRetryableStatus(code?: number): boolean {
+  return code !== undefined && RETRYABLE_STATUS_CODES.includes(code)
+}
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+const encoder = new TextEncoder()
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(JSON.stringify(event) + '\n')
+}
+
+// Aborting `signal` cancels the reader, which also cancels the server stream
+export async function* readChatStream(response: Response, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No reader available')
+  }
+  const cancelReader = () => reader.cancel().catch(() => {})
+  signal?.addEventListener('abort', cancelReader, { once: true })
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    if (signal?.aborted) return
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    let newlineIndex
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim()
+      buffer = buffer.slice(newlineIndex + 1)
+      if (line) yield JSON.parse(line) as ChatStreamEvent
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent
+}
+
+// Fold a tool_call fragment into the calls accumulated so far
+export function mergeToolCallDelta(
+  toolCalls: ToolCall[],
+  event: Extract<ChatStreamEvent, { type: 'tool_call' }>
+): ToolCall[] {
+  const next = [...toolCalls]
+  const existing = next[event.index] || { id: '', name: '', arguments: '' }
+  next[event.index] = {
+    id: event.id || existing.id,
+    name: existing.name + (event.name || ''),
+    arguments: existing.arguments + (event.arguments || ''),
+  }
+  return next
+}
+
+// Everything known about a streamed response so far
+export interface ChatStreamState {
+  content: string
+  reasoning: string
+  toolCalls: ToolCall[]
+  model?: string
+  usage?: ChatUsage
+  finishReason?: string
+  error?: { message: string; code?: number }
+  // The user stopped generation before the stream finished
+  truncated?: boolean
+}
+
+export function applyChatStreamEvent(state: ChatStreamState, event: ChatStreamEvent): ChatStreamState {
+  switch (event.type) {
+    case 'model':
+      return { ...state, model: event.model }
+    case 'reasoning':
+      return { ...state, reasoning: state.reasoning + event.delta }
+    case 'content':
+      return { ...state, content: state.content + event.delta }
+    case 'tool_call':
+      return { ...state, toolCalls: mergeToolCallDelta(state.toolCalls, event) }
+    case 'usage':
+      return {
+        ...state,
+        usage: {
+          promptTokens: event.promptTokens,
+          completionTokens: event.completionTokens,
+          totalTokens: event.totalTokens,
+          cost: event.cost,
+        },
+      }
+    case 'finish':
+      return { ...state, finishReason: event.reason }
+    case 'error':
+      return { ...state, error: { message: event.message, code: event.code } }
+  }
+}
+
+// The Message fields a streamed assistant reply carries; empty values are left out
+export function toStreamedFields(state: ChatStreamState): Pick<Message, 'content' | 'reasoning' | 'toolCalls' | 'model' | 'finishReason' | 'usage' | 'error' | 'truncated'> {
+  return {
+    content: state.content,
+    reasoning: state.reasoning || undefined,
+    toolCalls: state.toolCalls.length > 0 ? state.toolCalls : undefined,
+    model: state.model,
+    finishReason: state.finishReason,
+    usage: state.usage,
+    error: state.error?.message,
+    truncated: state.truncated || undefined,
+  }
+}
+
+// Read a sendChatMessage response to the end, reporting the accumulated state after every event.
+// When `signal` aborts, whatever arrived so far is returned marked as truncated.
+export async function consumeChatStream(
+  response: Response,
+  onUpdate: (state: ChatStreamState) => void,
+  signal?: AbortSignal
+): Promise<ChatStreamState> {
+  let state: ChatStreamState = { content: '', reasoning: '', toolCalls: [] }
+
+  try {
+    for await (const event of readChatStream(response, signal)) {
+      state = applyChatStreamEvent(state, event)
+      onUpdate(state)
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error
+  }
+
+  if (signal?.aborted) {
+    state = { ...state, truncated: true }
+    onUpdate(state)
+  }
+  return state
+}
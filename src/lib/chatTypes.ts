@@ -0,0 +1,81 @@
+// src/lib/chatTypes.ts
+// Shapes shared by ChatNode, ChatExpand and the persistence/export layers
+
+import type { Attachment } from './attachments'
+
+export type MessageRole = 'user' | 'assistant' | 'tool'
+
+export interface ToolCall {
+  id: string
+  name: string
+  // Raw JSON arguments as produced by the model
+  arguments: string
+}
+
+export interface ToolDefinition {
+  name: string
+  description?: string
+  // JSON Schema describing the arguments object
+  parameters: Record<string, unknown>
+}
+
+// 'auto' lets the model decide, 'none' disables tools, { name } forces one tool
+export type ToolChoice = 'auto' | 'none' | { name: string }
+
+// Snapshot of a quoted message, kept even if the original is later edited or removed
+export interface ReplyReference {
+  id: string
+  content: string
+  role: 'user' | 'assistant'
+}
+
+export interface Message {
+  id: string
+  role: MessageRole
+  content: string
+  // Message this one follows in the conversation tree; null for the first message
+  parentId?: string | null
+  // Earlier messages the user is replying to, in the order they were picked
+  replyTo?: ReplyReference[]
+  // User messages: images, PDFs and text files sent along with the text
+  attachments?: Attachment[]
+  // Assistant messages: tools the model asked to call
+  toolCalls?: ToolCall[]
+  // Tool messages: the call this result answers
+  toolCallId?: string
+  name?: string
+  // Assistant messages: streamed metadata about how the reply was produced
+  reasoning?: string
+  model?: string
+  finishReason?: string
+  usage?: MessageUsage
+  // Set when the stream failed part-way; content holds whatever arrived first
+  error?: string
+  // Set when the user stopped generation; content holds the partial answer
+  truncated?: boolean
+  // Structured output replies: result of checking the JSON against the node's format
+  jsonValidation?: { valid: boolean; errors: string[] }
+  // Replies streamed side by side from several models share a group until one is kept
+  compareGroup?: string
+  // Kept when older turns are trimmed to fit the context window
+  pinned?: boolean
+  // Live-context markers noting an input change; shown in the transcript, never sent
+  contextEvent?: ContextEvent
+}
+
+export type ContextEvent = 'connected' | 'updated' | 'disconnected'
+
+export interface MessageUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // USD, as reported by OpenRouter; missing when the lookup failed
+  cost?: number
+}
+
+// Conversations saved before multiple replies were supported store a single object
+export function normalizeMessage(message: Message): Message {
+  const replyTo = message.replyTo as ReplyReference | ReplyReference[] | undefined
+  if (!replyTo || Array.isArray(replyTo)) return message
+  return { ...message, replyTo: [replyTo] }
+}
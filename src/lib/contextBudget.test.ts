@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from './chatTypes'
+import { SUMMARY_RESERVE_TOKENS, estimateContext, fitHistory, getHistoryBudget } from './contextBudget'
+
+// 400 characters, so 100 tokens plus the per-message overhead
+const message = (id: string, content = 'x'.repeat(400)): Message => ({ id, role: 'user', content })
+
+const estimate = (history: Message[], contextLength: number | null) =>
+  estimateContext({ systemPrompt: 'y'.repeat(400), contexts: [], history, contextLength, replyReserve: 100 })
+
+describe('getHistoryBudget', () => {
+  it('leaves the history what the system prompt and the reply reserve do not take', () => {
+    expect(getHistoryBudget(estimate([message('u1')], 1_000), 'dropOldest')).toBe(1_000 - 100 - 104)
+  })
+
+  it('also keeps room for the summary when summarizing', () => {
+    expect(getHistoryBudget(estimate([message('u1')], 1_000), 'summarize')).toBe(1_000 - 100 - 104 - SUMMARY_RESERVE_TOKENS)
+  })
+
+  it('is unknown without a context length', () => {
+    expect(getHistoryBudget(estimate([message('u1')], null), 'summarize')).toBeNull()
+  })
+
+  it('refuses a history that only fits without the summary reserve', () => {
+    // The latest turn is never trimmed
+    const history = [message('u1'), message('u2', 'x'.repeat(2_000))]
+    const context = estimate(history, 1_000)
+    expect(fitHistory(history, getHistoryBudget(context, 'dropOldest')!).fits).toBe(true)
+    expect(fitHistory(history, getHistoryBudget(context, 'summarize')!).fits).toBe(false)
+  })
+})
@@ -0,0 +1,139 @@
+// src/lib/contextBudget.ts
+// Rough token accounting for a ChatNode request and the strategies that keep
+// it inside the model's context window. Estimates use ~4 characters per
+// token; they only need to be close enough to warn before a request fails.
+
+import type { Message } from './chatTypes'
+import type { PlacedContext } from './edgeContext'
+
+// What a node does when its history no longer fits: only warn, drop the
+// oldest turns, or replace them with a summary. Pinned messages are never trimmed.
+export type ContextStrategy = 'warn' | 'dropOldest' | 'summarize'
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'warn'
+
+// Room kept free for the reply when the node sets no max tokens
+export const DEFAULT_REPLY_RESERVE = 4_096
+
+// Room kept for the summary that replaces trimmed turns
+export const SUMMARY_RESERVE_TOKENS = 600
+
+const CHARS_PER_TOKEN = 4
+// Role markers and separators the provider adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+const IMAGE_TOKENS = 1_000
+const PDF_BYTES_PER_TOKEN = 50
+
+export interface ContextEstimate {
+  systemTokens: number
+  contexts: { label: string; tokens: number }[]
+  historyTokens: number
+  total: number
+  // Tokens the request may use (context length minus the reply reserve); null when unknown
+  limit: number | null
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function estimateMessageTokens(message: Message): number {
+  // Live-context markers are never sent
+  if (message.contextEvent) return 0
+
+  const quotes = (message.replyTo || []).reduce((sum, reply) => sum + estimateTextTokens(reply.content), 0)
+  const toolCalls = (message.toolCalls || []).reduce(
+    (sum, call) => sum + estimateTextTokens(call.name + call.arguments),
+    0
+  )
+  const attachments = (message.attachments || []).reduce((sum, attachment) => {
+    if (attachment.kind === 'image') return sum + IMAGE_TOKENS
+    if (attachment.kind === 'pdf') return sum + Math.ceil(attachment.size / PDF_BYTES_PER_TOKEN)
+    return sum + estimateTextTokens(attachment.text || '')
+  }, 0)
+  return MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content) + quotes + toolCalls + attachments
+}
+
+export function estimateContext(options: {
+  systemPrompt: string
+  contexts: PlacedContext[]
+  history: Message[]
+  contextLength: number | null
+  replyReserve: number
+}): ContextEstimate {
+  const { systemPrompt, contexts, history, contextLength, replyReserve } = options
+  const systemTokens = systemPrompt.trim() ? estimateTextTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0
+  const contextTokens = contexts.map((context) => ({
+    label: context.label,
+    tokens: estimateTextTokens(context.text) + MESSAGE_OVERHEAD_TOKENS,
+  }))
+  const historyTokens = history.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+
+  return {
+    systemTokens,
+    contexts: contextTokens,
+    historyTokens,
+    total: systemTokens + historyTokens + contextTokens.reduce((sum, context) => sum + context.tokens, 0),
+    limit: contextLength ? Math.max(contextLength - replyReserve, 0) : null,
+  }
+}
+
+export function isOverLimit(estimate: ContextEstimate): boolean {
+  return estimate.limit !== null && estimate.total > estimate.limit
+}
+
+// Tokens left for the history once the system prompt and contexts are placed,
+// less the room a summary of the trimmed turns needs; null when the limit is unknown
+export function getHistoryBudget(estimate: ContextEstimate, strategy: ContextStrategy): number | null {
+  if (estimate.limit === null) return null
+  const reserve = strategy === 'summarize' ? SUMMARY_RESERVE_TOKENS : 0
+  return estimate.limit - (estimate.total - estimate.historyTokens) - reserve
+}
+
+// A turn is a user message and everything answering it (replies, tool calls
+// and results); trimming whole turns keeps tool calls paired with their results
+function groupTurns(history: Message[]): Message[][] {
+  const turns: Message[][] = []
+  for (const message of history) {
+    if (message.role === 'user' || turns.length === 0) turns.push([message])
+    else turns[turns.length - 1].push(message)
+  }
+  return turns
+}
+
+export interface HistoryFit {
+  kept: Message[]
+  trimmed: Message[]
+  // False when the history is still too long after trimming everything allowed
+  fits: boolean
+}
+
+// Trim the oldest turns until the history fits in `availableTokens`. Turns
+// holding a pinned message and the latest turn are always kept.
+export function fitHistory(history: Message[], availableTokens: number): HistoryFit {
+  const turns = groupTurns(history)
+  const tokens = turns.map((turn) => turn.reduce((sum, message) => sum + estimateMessageTokens(message), 0))
+  let total = tokens.reduce((sum, count) => sum + count, 0)
+
+  const trimmedTurns = new Set<number>()
+  for (let index = 0; index < turns.length - 1 && total > availableTokens; index++) {
+    if (turns[index].some((message) => message.pinned)) continue
+    trimmedTurns.add(index)
+    total -= tokens[index]
+  }
+
+  return {
+    kept: turns.filter((_, index) => !trimmedTurns.has(index)).flat(),
+    trimmed: turns.filter((_, index) => trimmedTurns.has(index)).flat(),
+    fits: total <= availableTokens,
+  }
+}
+
+// Sent ahead of the kept history in place of the summarized turns
+export function createHistorySummaryMessage(summary: string): Message {
+  return {
+    id: `history-summary-${Date.now()}`,
+    role: 'user',
+    content: `Summary of the earlier conversation, which was shortened to fit the context window:\n\n${summary}`,
+  }
+}
@@ -0,0 +1,85 @@
+// src/lib/contextDiff.ts
+// Line diff between the connected contexts sent with the previous request and
+// the ones that would be sent now, shown by live-context nodes.
+
+import type { PlacedContext } from './edgeContext'
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface ContextChange {
+  sourceId: string
+  label: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  lines: DiffLine[]
+}
+
+// Above this many line pairs the LCS table gets too large; the whole text is
+// shown as replaced instead
+const MAX_DIFF_CELLS = 250_000
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : []
+  const b = after ? after.split('\n') : []
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: 'removed' as const, text })),
+      ...b.map((text) => ({ type: 'added' as const, text })),
+    ]
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+  return lines
+}
+
+// One entry per input present in either list, in the order they appear now
+export function diffContexts(previous: PlacedContext[], current: PlacedContext[]): ContextChange[] {
+  const previousById = new Map(previous.map((context) => [context.sourceId, context]))
+  const currentIds = new Set(current.map((context) => context.sourceId))
+
+  const changes: ContextChange[] = current.map((context) => {
+    const before = previousById.get(context.sourceId)
+    if (!before) {
+      return { sourceId: context.sourceId, label: context.label, status: 'added', lines: diffLines('', context.text) }
+    }
+    return {
+      sourceId: context.sourceId,
+      label: context.label,
+      status: before.text === context.text ? 'unchanged' : 'changed',
+      lines: diffLines(before.text, context.text),
+    }
+  })
+
+  for (const context of previous) {
+    if (!currentIds.has(context.sourceId)) {
+      changes.push({ sourceId: context.sourceId, label: context.label, status: 'removed', lines: diffLines(context.text, '') })
+    }
+  }
+  return changes
+}
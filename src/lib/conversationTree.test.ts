@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from './chatTypes'
+import {
+  addComparisonReply,
+  appendMessages,
+  canStepForward,
+  createConversationTree,
+  getActivePath,
+  getOpenComparison,
+  getSiblings,
+  keepComparisonReply,
+  removeMessage,
+  selectBranch,
+  stepBack,
+  stepForward,
+} from './conversationTree'
+
+const user = (id: string, content = id): Message => ({ id, role: 'user', content })
+const assistant = (id: string, content = id): Message => ({ id, role: 'assistant', content })
+
+const ids = (messages: Message[]) => messages.map((m) => m.id)
+
+describe('createConversationTree', () => {
+  it('chains a flat saved conversation in order', () => {
+    const tree = createConversationTree([user('u1'), assistant('a1'), user('u2')])
+    expect(tree.messages.map((m) => m.parentId)).toEqual([null, 'u1', 'a1'])
+    expect(tree.activeLeafId).toBe('u2')
+  })
+
+  it('falls back to the last message when the saved leaf is gone', () => {
+    const tree = createConversationTree([{ ...user('u1'), parentId: null }], 'missing')
+    expect(tree.activeLeafId).toBe('u1')
+  })
+
+  it('keeps an unsettled comparison reply off the active path', () => {
+    const tree = createConversationTree(
+      [
+        { ...user('u1'), parentId: null },
+        { ...assistant('c0'), parentId: 'u1', compareGroup: 'g' },
+      ],
+      'c0'
+    )
+    expect(tree.activeLeafId).toBe('u1')
+  })
+})
+
+describe('appendMessages', () => {
+  it('chains messages below the active leaf and activates the last one', () => {
+    let tree = createConversationTree()
+    tree = appendMessages(tree, [user('u1'), assistant('a1')])
+    tree = appendMessages(tree, [user('u2')])
+
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2'])
+    expect(tree.activeLeafId).toBe('u2')
+  })
+
+  it('adds a sibling branch when given an earlier parent', () => {
+    let tree = appendMessages(createConversationTree(), [user('u1'), assistant('a1')])
+    tree = appendMessages(tree, [assistant('a2')], 'u1')
+
+    expect(ids(getSiblings(tree, 'a1'))).toEqual(['a1', 'a2'])
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'a2'])
+  })
+})
+
+describe('branches', () => {
+  const base = () => {
+    let tree = appendMessages(createConversationTree(), [user('u1'), assistant('a1'), user('u2'), assistant('a2')])
+    tree = appendMessages(tree, [assistant('b1')], 'u1')
+    return tree
+  }
+
+  it('selecting a branch follows its most recent descendants', () => {
+    const tree = selectBranch(base(), 'a1')
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('removing a message drops its subtree and moves the leaf up', () => {
+    const tree = removeMessage(selectBranch(base(), 'a1'), 'u2')
+    expect(ids(tree.messages)).toEqual(['u1', 'a1', 'b1'])
+    expect(tree.activeLeafId).toBe('a1')
+  })
+
+  it('undo and redo move along the active path without deleting', () => {
+    const back = stepBack(base())
+    expect(back.activeLeafId).toBe('u1')
+    expect(back.messages).toHaveLength(5)
+    expect(stepForward(back).activeLeafId).toBe('b1')
+  })
+})
+
+describe('comparisons', () => {
+  const compared = () => {
+    let tree = appendMessages(createConversationTree(), [user('u1')])
+    tree = addComparisonReply(tree, { ...assistant('c0'), compareGroup: 'g' }, 'u1')
+    tree = addComparisonReply(tree, { ...assistant('c1'), compareGroup: 'g' }, 'u1')
+    return tree
+  }
+
+  it('leaves the active leaf on the prompt until a reply is kept', () => {
+    const tree = compared()
+    expect(tree.activeLeafId).toBe('u1')
+    expect(ids(getOpenComparison(tree))).toEqual(['c0', 'c1'])
+  })
+
+  it('redo and branch selection do not step into an open comparison', () => {
+    const tree = compared()
+    expect(canStepForward(tree)).toBe(false)
+    expect(stepForward(tree).activeLeafId).toBe('u1')
+    expect(selectBranch(tree, 'u1').activeLeafId).toBe('u1')
+  })
+
+  it('keeping a reply settles the group and makes it active', () => {
+    const tree = keepComparisonReply(compared(), 'c0')
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'c0'])
+    expect(tree.messages.every((m) => !m.compareGroup)).toBe(true)
+    expect(getOpenComparison(tree)).toEqual([])
+  })
+})
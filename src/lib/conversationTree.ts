@@ -0,0 +1,170 @@
+// src/lib/conversationTree.ts
+// A ChatNode conversation is a tree: every message points at the message it
+// follows (`parentId`, null for the first message). Editing or regenerating a
+// message adds a sibling instead of overwriting, so older branches stay
+// recoverable. The node shows the path from the root to `activeLeafId`.
+
+import { normalizeMessage, type Message } from './chatTypes'
+
+export interface ConversationTree {
+  // Every message of every branch, in creation order
+  messages: Message[]
+  activeLeafId: string | null
+}
+
+// Saved conversations from before branching are a flat list; chain them in order
+export function createConversationTree(messages: Message[] = [], activeLeafId?: string | null): ConversationTree {
+  const isFlat = messages.every((m) => m.parentId === undefined)
+  const treeMessages = messages.map((m, index) => {
+    const message = normalizeMessage(m)
+    return isFlat ? { ...message, parentId: index === 0 ? null : messages[index - 1].id } : message
+  })
+
+  // null means everything was undone; undefined means no leaf was saved
+  const leafExists = activeLeafId === null || treeMessages.some((m) => m.id === activeLeafId)
+  const leafId = leafExists ? activeLeafId! : treeMessages.at(-1)?.id ?? null
+  // Older saves could leave an unsettled comparison reply active
+  const leaf = treeMessages.find((m) => m.id === leafId)
+  return {
+    messages: treeMessages,
+    activeLeafId: leaf?.compareGroup ? leaf.parentId ?? null : leafId,
+  }
+}
+
+export function getActivePath(tree: ConversationTree): Message[] {
+  const byId = new Map(tree.messages.map((m) => [m.id, m]))
+  const path: Message[] = []
+  let current = tree.activeLeafId ? byId.get(tree.activeLeafId) : undefined
+  while (current) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+export function getChildren(tree: ConversationTree, parentId: string | null): Message[] {
+  return tree.messages.filter((m) => (m.parentId ?? null) === parentId)
+}
+
+// Alternatives for a message, itself included, oldest first
+export function getSiblings(tree: ConversationTree, messageId: string): Message[] {
+  const message = tree.messages.find((m) => m.id === messageId)
+  if (!message) return []
+  return getChildren(tree, message.parentId ?? null)
+}
+
+// Children that can become active: unsettled compared replies only join the
+// active path through keepComparisonReply
+function getBranchChildren(tree: ConversationTree, parentId: string | null): Message[] {
+  return getChildren(tree, parentId).filter((m) => !m.compareGroup)
+}
+
+// Messages that follow `messageId` on its most recent branch
+export function getLatestDescendants(tree: ConversationTree, messageId: string): Message[] {
+  const descendants: Message[] = []
+  let children = getBranchChildren(tree, messageId)
+  while (children.length > 0) {
+    const latest = children[children.length - 1]
+    descendants.push(latest)
+    children = getBranchChildren(tree, latest.id)
+  }
+  return descendants
+}
+
+// Append messages one after another below `parentId` and make the last one active
+export function appendMessages(
+  tree: ConversationTree,
+  newMessages: Message[],
+  parentId: string | null = tree.activeLeafId
+): ConversationTree {
+  if (newMessages.length === 0) return tree
+  let parent = parentId
+  const chained = newMessages.map((m) => {
+    const message = { ...m, parentId: parent }
+    parent = m.id
+    return message
+  })
+  return { messages: [...tree.messages, ...chained], activeLeafId: parent }
+}
+
+// Add a compared reply below `parentId` without making it active; it joins the
+// active path once the user keeps it (keepComparisonReply)
+export function addComparisonReply(tree: ConversationTree, message: Message, parentId: string | null): ConversationTree {
+  return { ...tree, messages: [...tree.messages, { ...message, parentId }] }
+}
+
+export function patchMessage(tree: ConversationTree, messageId: string, changes: Partial<Message>): ConversationTree {
+  return {
+    ...tree,
+    messages: tree.messages.map((m) => (m.id === messageId ? { ...m, ...changes } : m)),
+  }
+}
+
+// Remove a message and everything below it; the active leaf moves up if it was inside
+export function removeMessage(tree: ConversationTree, messageId: string): ConversationTree {
+  const message = tree.messages.find((m) => m.id === messageId)
+  if (!message) return tree
+
+  const removed = new Set([messageId])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const m of tree.messages) {
+      if (m.parentId && removed.has(m.parentId) && !removed.has(m.id)) {
+        removed.add(m.id)
+        grew = true
+      }
+    }
+  }
+
+  const activeRemoved = tree.activeLeafId !== null && removed.has(tree.activeLeafId)
+  return {
+    messages: tree.messages.filter((m) => !removed.has(m.id)),
+    activeLeafId: activeRemoved ? message.parentId ?? null : tree.activeLeafId,
+  }
+}
+
+// Make `messageId` part of the active path, continuing down its most recent branch
+export function selectBranch(tree: ConversationTree, messageId: string): ConversationTree {
+  const descendants = getLatestDescendants(tree, messageId)
+  return { ...tree, activeLeafId: descendants.at(-1)?.id ?? messageId }
+}
+
+// Settle a side-by-side comparison: `messageId` becomes the canonical reply and
+// the other answers stay behind as ordinary sibling branches
+export function keepComparisonReply(tree: ConversationTree, messageId: string): ConversationTree {
+  const group = tree.messages.find((m) => m.id === messageId)?.compareGroup
+  if (!group) return tree
+  const settled = {
+    ...tree,
+    messages: tree.messages.map((m) => (m.compareGroup === group ? { ...m, compareGroup: undefined } : m)),
+  }
+  return selectBranch(settled, messageId)
+}
+
+export function getComparisonReplies(tree: ConversationTree, group: string): Message[] {
+  return tree.messages.filter((m) => m.compareGroup === group)
+}
+
+// Replies of a comparison below the active leaf still waiting for one to be kept
+export function getOpenComparison(tree: ConversationTree): Message[] {
+  return tree.messages.filter((m) => m.compareGroup && (m.parentId ?? null) === tree.activeLeafId)
+}
+
+// Undo: hide the last message of the active path without deleting it
+export function stepBack(tree: ConversationTree): ConversationTree {
+  const leaf = tree.messages.find((m) => m.id === tree.activeLeafId)
+  if (!leaf) return tree
+  return { ...tree, activeLeafId: leaf.parentId ?? null }
+}
+
+// Redo: bring back the most recent message below the active leaf
+export function stepForward(tree: ConversationTree): ConversationTree {
+  const children = getBranchChildren(tree, tree.activeLeafId)
+  if (children.length === 0) return tree
+  return { ...tree, activeLeafId: children[children.length - 1].id }
+}
+
+export function canStepForward(tree: ConversationTree): boolean {
+  return getBranchChildren(tree, tree.activeLeafId).length > 0
+}
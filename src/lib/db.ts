@@ -0,0 +1,324 @@
+// src/lib/db.ts
+import Dexie, { type EntityTable } from 'dexie'
+import type { Edge, Node } from '@xyflow/react'
+import type { WorkbenchSyncState } from './workbenchSync'
+
+// A saved canvas: the React Flow graph plus everything the nodes keep in
+// their `data` (ChatNode conversations and settings, ContextNode text).
+export interface WorkbenchRecord {
+  id: string
+  name: string
+  nodes: Node[]
+  edges: Edge[]
+  nodeIdCounter: number
+  // Spending limit in USD for all chat nodes on the canvas; unset means no limit
+  budget?: number
+  createdAt: number
+  updatedAt: number
+  // Set once the workbench has been uploaded to the server (see lib/syncEngine.ts)
+  sync?: WorkbenchSyncState
+}
+
+// A synced workbench deleted here, still to be deleted on the server
+export interface DeletedWorkbenchRecord {
+  id: string
+  deletedAt: number
+}
+
+export interface WorkbenchGraph {
+  nodes: Node[]
+  edges: Edge[]
+  nodeIdCounter: number
+}
+
+// A model starred in the model picker (OpenRouter model id)
+export interface FavoriteModelRecord {
+  id: string
+  addedAt: number
+}
+
+// A named system prompt that can be applied to any chat node
+export interface PromptPresetRecord {
+  id: string
+  name: string
+  content: string
+  createdAt: number
+  updatedAt: number
+}
+
+// A user's own provider API key, encrypted with the key in `secretKeys`
+// (see lib/apiKeys.ts). Only the hint is readable without decrypting.
+export interface ApiKeyRecord {
+  provider: string
+  iv: Uint8Array<ArrayBuffer>
+  ciphertext: ArrayBuffer
+  // Last characters of the key, to tell keys apart in the settings screen
+  hint: string
+  updatedAt: number
+}
+
+// A non-extractable WebCrypto key; IndexedDB stores it without exposing its bytes
+export interface SecretKeyRecord {
+  id: string
+  key: CryptoKey
+}
+
+// Starter presets, added when the library is first created
+const DEFAULT_PROMPT_PRESETS: Pick<PromptPresetRecord, 'name' | 'content'>[] = [
+  {
+    name: 'Code reviewer',
+    content:
+      'You are a meticulous senior engineer reviewing code. Point out bugs, unclear naming, missing error handling and risky changes first, then smaller style issues. Quote the lines you are talking about and suggest concrete fixes.',
+  },
+  {
+    name: 'SQL expert',
+    content:
+      'You are an expert in SQL and relational database design. Write correct, readable queries, state which dialect you assume, explain indexes and query plans when performance matters, and warn about queries that could lock or scan large tables.',
+  },
+  {
+    name: 'Concise assistant',
+    content: 'Answer as briefly as possible. Use short sentences or bullet points, skip preambles and do not repeat the question.',
+  },
+]
+
+function createDefaultPromptPresets(): PromptPresetRecord[] {
+  const now = Date.now()
+  return DEFAULT_PROMPT_PRESETS.map((preset) => ({ ...preset, id: crypto.randomUUID(), createdAt: now, updatedAt: now }))
+}
+
+class WrkbenchDatabase extends Dexie {
+  workbenches!: EntityTable<WorkbenchRecord, 'id'>
+  favoriteModels!: EntityTable<FavoriteModelRecord, 'id'>
+  promptPresets!: EntityTable<PromptPresetRecord, 'id'>
+  apiKeys!: EntityTable<ApiKeyRecord, 'provider'>
+  secretKeys!: EntityTable<SecretKeyRecord, 'id'>
+  deletedWorkbenches!: EntityTable<DeletedWorkbenchRecord, 'id'>
+
+  constructor(name: string) {
+    super(name)
+    this.version(1).stores({
+      workbenches: 'id, updatedAt',
+    })
+    this.version(2).stores({
+      favoriteModels: 'id, addedAt',
+    })
+    this.version(3)
+      .stores({
+        promptPresets: 'id, name',
+      })
+      .upgrade((tx) => tx.table('promptPresets').bulkAdd(createDefaultPromptPresets()))
+    this.version(4).stores({
+      apiKeys: 'provider',
+      secretKeys: 'id',
+    })
+    this.version(5).stores({
+      deletedWorkbenches: 'id',
+    })
+
+    // Fresh databases skip upgrade functions
+    this.on('populate', (tx) => tx.table('promptPresets').bulkAdd(createDefaultPromptPresets()))
+  }
+}
+
+// Data saved before sign-in existed, handed to the first user who signs in here
+const LEGACY_DATABASE_NAME = 'wrkbench'
+
+// Each user gets their own IndexedDB database, so nothing one user saves is
+// visible to another user of the same browser. Set by selectDatabaseUser.
+export let db!: WrkbenchDatabase
+
+async function adoptLegacyDatabase(userDb: Dexie): Promise<void> {
+  if (!(await Dexie.exists(LEGACY_DATABASE_NAME))) return
+  console.log(`Moving anonymous workbenches into ${userDb.name}`)
+
+  const legacy = new Dexie(LEGACY_DATABASE_NAME)
+  await legacy.open()
+  // The legacy presets replace the defaults added when this database was created
+  await userDb.table('promptPresets').clear()
+  for (const table of legacy.tables) {
+    if (userDb.tables.some((t) => t.name === table.name)) {
+      await userDb.table(table.name).bulkPut(await table.toArray())
+    }
+  }
+  legacy.close()
+  await Dexie.delete(LEGACY_DATABASE_NAME)
+}
+
+// Called with the signed-in user before any other function in this module
+export function selectDatabaseUser(userId: string): void {
+  const name = `wrkbench-${userId}`
+  if (db?.name === name) return
+  db?.close()
+  db = new WrkbenchDatabase(name)
+  // Queries wait until a returned promise settles
+  db.on('ready', (userDb) =>
+    adoptLegacyDatabase(userDb).catch((error) => console.error('Failed to move anonymous workbenches:', error))
+  )
+}
+
+// Every new workbench starts with a single chat node
+function createDefaultGraph(): WorkbenchGraph {
+  return {
+    nodes: [
+      {
+        id: '1',
+        type: 'chatNode',
+        position: { x: 250, y: 150 },
+        data: { label: 'Chat' },
+        style: { width: 600, height: 600 },
+      },
+    ],
+    edges: [],
+    nodeIdCounter: 2,
+  }
+}
+
+// Strip transient React Flow UI state so a restored canvas starts unselected
+function toStoredNode(node: Node): Node {
+  const { selected, dragging, resizing, ...rest } = node
+  return rest
+}
+
+function toStoredEdge(edge: Edge): Edge {
+  const { selected, ...rest } = edge
+  return rest
+}
+
+export async function loadWorkbench(id: string): Promise<WorkbenchRecord | undefined> {
+  return db.workbenches.get(id)
+}
+
+// Most recently modified first
+export async function listWorkbenches(): Promise<WorkbenchRecord[]> {
+  return db.workbenches.orderBy('updatedAt').reverse().toArray()
+}
+
+export async function createWorkbench(
+  name: string,
+  graph: WorkbenchGraph = createDefaultGraph()
+): Promise<WorkbenchRecord> {
+  const now = Date.now()
+  const record: WorkbenchRecord = {
+    id: crypto.randomUUID(),
+    name,
+    nodes: graph.nodes.map(toStoredNode),
+    edges: graph.edges.map(toStoredEdge),
+    nodeIdCounter: graph.nodeIdCounter,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.workbenches.add(record)
+  return record
+}
+
+// Only updates an existing record, so a pending save can't resurrect a deleted workbench
+export async function saveWorkbench(id: string, graph: WorkbenchGraph): Promise<void> {
+  await db.workbenches.update(id, {
+    nodes: graph.nodes.map(toStoredNode),
+    edges: graph.edges.map(toStoredEdge),
+    nodeIdCounter: graph.nodeIdCounter,
+    updatedAt: Date.now(),
+  })
+}
+
+export async function renameWorkbench(id: string, name: string): Promise<void> {
+  await db.workbenches.update(id, { name, updatedAt: Date.now() })
+}
+
+export async function setWorkbenchBudget(id: string, budget: number | undefined): Promise<void> {
+  await db.workbenches.update(id, { budget })
+}
+
+export async function duplicateWorkbench(id: string): Promise<WorkbenchRecord> {
+  const source = await db.workbenches.get(id)
+  if (!source) {
+    throw new Error(`Workbench ${id} not found`)
+  }
+
+  return createWorkbench(`${source.name} (copy)`, source)
+}
+
+// Synced workbenches leave a tombstone so the deletion reaches the server too
+export async function deleteWorkbench(id: string): Promise<void> {
+  await db.transaction('rw', db.workbenches, db.deletedWorkbenches, async () => {
+    const record = await db.workbenches.get(id)
+    if (record?.sync) await db.deletedWorkbenches.put({ id, deletedAt: Date.now() })
+    await db.workbenches.delete(id)
+  })
+}
+
+export async function listDeletedWorkbenches(): Promise<string[]> {
+  return (await db.deletedWorkbenches.toArray()).map((record) => record.id)
+}
+
+export async function forgetDeletedWorkbench(id: string): Promise<void> {
+  await db.deletedWorkbenches.delete(id)
+}
+
+// Removes a workbench deleted on another device, without a tombstone
+export async function forgetWorkbench(id: string): Promise<void> {
+  await db.workbenches.delete(id)
+}
+
+// Only touches the sync state, so edits saved in the meantime are kept
+export async function setWorkbenchSyncState(id: string, sync: WorkbenchSyncState): Promise<void> {
+  await db.workbenches.update(id, { sync })
+}
+
+// Writes a merged copy unless the record was edited while the merge ran.
+// `expected` is the record the merge started from; undefined adds a new one.
+export async function storeMergedWorkbench(record: WorkbenchRecord, expected?: WorkbenchRecord): Promise<boolean> {
+  return db.transaction('rw', db.workbenches, db.deletedWorkbenches, async () => {
+    if (await db.deletedWorkbenches.get(record.id)) return false
+    const current = await db.workbenches.get(record.id)
+    if (!expected) {
+      if (current) return false
+    } else if (
+      !current ||
+      current.updatedAt !== expected.updatedAt ||
+      current.name !== expected.name ||
+      current.budget !== expected.budget
+    ) {
+      return false
+    }
+    await db.workbenches.put({
+      ...record,
+      nodes: record.nodes.map(toStoredNode),
+      edges: record.edges.map(toStoredEdge),
+    })
+    return true
+  })
+}
+
+export async function listFavoriteModels(): Promise<string[]> {
+  const favorites = await db.favoriteModels.orderBy('addedAt').toArray()
+  return favorites.map((favorite) => favorite.id)
+}
+
+export async function toggleFavoriteModel(id: string): Promise<void> {
+  if (await db.favoriteModels.get(id)) {
+    await db.favoriteModels.delete(id)
+  } else {
+    await db.favoriteModels.add({ id, addedAt: Date.now() })
+  }
+}
+
+export async function listPromptPresets(): Promise<PromptPresetRecord[]> {
+  return db.promptPresets.orderBy('name').toArray()
+}
+
+export async function createPromptPreset(name: string, content: string): Promise<PromptPresetRecord> {
+  const now = Date.now()
+  const record: PromptPresetRecord = { id: crypto.randomUUID(), name, content, createdAt: now, updatedAt: now }
+  await db.promptPresets.add(record)
+  return record
+}
+
+export async function updatePromptPreset(id: string, changes: Partial<Pick<PromptPresetRecord, 'name' | 'content'>>): Promise<void> {
+  await db.promptPresets.update(id, { ...changes, updatedAt: Date.now() })
+}
+
+export async function deletePromptPreset(id: string): Promise<void> {
+  await db.promptPresets.delete(id)
+}
@@ -0,0 +1,127 @@
+// src/lib/edgeContext.ts
+// How a chat node's applied output reaches a chat node connected below it.
+// Each edge picks what is sent (content) and where it lands in the target's
+// request (placement). Settings live in the edge's `data.context`; edges
+// without settings keep the original behaviour: the full transcript injected
+// as an assistant note.
+
+import type { Edge } from '@xyflow/react'
+import type { Message } from './chatTypes'
+import { withSystemPrompt, type PayloadMessage } from './chatPayload'
+
+export type EdgeContentMode = 'full' | 'lastN' | 'assistant' | 'summary' | 'keypoints'
+export type EdgePlacement = 'system' | 'user' | 'assistant'
+
+export interface EdgeContextSettings {
+  content: EdgeContentMode
+  // Turns kept by 'lastN'; a turn is a user message and everything answering it
+  lastN: number
+  placement: EdgePlacement
+}
+
+export const DEFAULT_EDGE_CONTEXT: EdgeContextSettings = {
+  content: 'full',
+  lastN: 4,
+  placement: 'assistant',
+}
+
+export const EDGE_CONTENT_LABELS: Record<EdgeContentMode, string> = {
+  full: 'Full transcript',
+  lastN: 'Last N turns',
+  assistant: 'Replies only',
+  summary: 'Summary',
+  keypoints: 'Key points',
+}
+
+export const EDGE_PLACEMENT_LABELS: Record<EdgePlacement, string> = {
+  system: 'System prompt',
+  user: 'Leading user message',
+  assistant: 'Assistant note',
+}
+
+// 'inject' adds connected inputs to the conversation as assistant notes (and
+// re-injects them on every change); 'live' resolves every input into a context
+// block at send time and leaves only short markers in the transcript
+export type ContextMode = 'inject' | 'live'
+
+// A context sent at request time instead of being injected into the conversation
+export interface PlacedContext {
+  sourceId: string
+  label: string
+  text: string
+  placement: Exclude<EdgePlacement, 'assistant'>
+}
+
+export function getEdgeContextSettings(edge: Edge): EdgeContextSettings {
+  return { ...DEFAULT_EDGE_CONTEXT, ...(edge.data?.context as Partial<EdgeContextSettings> | undefined) }
+}
+
+export function isSummaryContent(content: EdgeContentMode): content is 'summary' | 'keypoints' {
+  return content === 'summary' || content === 'keypoints'
+}
+
+// Short form shown on the edge, e.g. "last 4 → system"
+export function formatEdgeLabel(settings: EdgeContextSettings): string {
+  const content = {
+    full: 'full',
+    lastN: `last ${settings.lastN}`,
+    assistant: 'replies',
+    summary: 'summary',
+    keypoints: 'key points',
+  }[settings.content]
+  const placement = { system: 'system', user: 'user msg', assistant: 'note' }[settings.placement]
+  return `${content} → ${placement}`
+}
+
+export function formatTranscript(messages: Message[]): string {
+  return messages
+    .map((msg) => {
+      const role = msg.role === 'user' ? 'User' : msg.role === 'tool' ? 'Tool' : 'Assistant'
+      return `**${role}:** ${msg.content}`
+    })
+    .join('\n\n')
+}
+
+function getLastTurns(messages: Message[], count: number): Message[] {
+  let seen = 0
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === 'user' && ++seen === count) return messages.slice(index)
+  }
+  return messages
+}
+
+// Text for the content modes that need no model call; summaries and key
+// points are generated by the target node and cached there
+export function serializeChatContext(messages: Message[], settings: EdgeContextSettings): string {
+  switch (settings.content) {
+    case 'lastN':
+      return formatTranscript(getLastTurns(messages, settings.lastN))
+    case 'assistant':
+      return messages
+        .filter((m) => m.role === 'assistant')
+        .map((m) => m.content)
+        .join('\n\n---\n\n')
+    default:
+      return formatTranscript(messages)
+  }
+}
+
+function formatContextBlock(contexts: PlacedContext[]): string {
+  if (contexts.length === 0) return ''
+  const sections = contexts.map((context) => `### ${context.label}\n\n${context.text}`)
+  return `Context from connected nodes:\n\n${sections.join('\n\n')}`
+}
+
+// System-placed contexts follow the node's own system prompt; user-placed ones
+// become a single user message ahead of the conversation
+export function withPlacedContexts(
+  messages: PayloadMessage[],
+  systemPrompt: string,
+  contexts: PlacedContext[]
+): PayloadMessage[] {
+  const systemBlock = formatContextBlock(contexts.filter((c) => c.placement === 'system'))
+  const userBlock = formatContextBlock(contexts.filter((c) => c.placement === 'user'))
+  const leading: PayloadMessage[] = userBlock ? [{ role: 'user', content: userBlock }] : []
+  const prompt = [systemPrompt.trim(), systemBlock].filter(Boolean).join('\n\n')
+  return withSystemPrompt([...leading, ...messages], prompt)
+}
@@ -0,0 +1,45 @@
+// src/lib/fork.ts
+// Forking copies a chat's history up to one message into a new ChatNode.
+// The fork edge only records where the thread split off: unlike a normal
+// connection, it never feeds the source's output into the fork.
+
+import type { Edge } from '@xyflow/react'
+import type { Message } from './chatTypes'
+
+export const FORK_EDGE_KIND = 'fork'
+
+export function createForkEdge(source: string, target: string): Edge {
+  return {
+    id: `fork__${source}-${target}`,
+    source,
+    target,
+    label: 'fork',
+    data: { kind: FORK_EDGE_KIND },
+    style: { strokeDasharray: '6 4', stroke: '#9333ea' },
+    labelStyle: { fill: '#7e22ce', fontSize: 11 },
+  }
+}
+
+export function isForkEdge(edge: Edge): boolean {
+  return edge.data?.kind === FORK_EDGE_KIND
+}
+
+// The active path up to and including `messageId`, as a fresh flat history.
+// Usage stays with the source, so the copied turns aren't counted twice
+// against the budget, and so do per-node settings like pins.
+export function getForkHistory(messages: Message[], messageId: string): Message[] {
+  const index = messages.findIndex((m) => m.id === messageId)
+  if (index === -1) return []
+  return messages
+    .slice(0, index + 1)
+    .map(
+      ({
+        parentId: _parentId,
+        usage: _usage,
+        compareGroup: _compareGroup,
+        pinned: _pinned,
+        jsonValidation: _jsonValidation,
+        ...message
+      }) => message
+    )
+}
@@ -0,0 +1,110 @@
+// src/lib/modelCatalog.ts
+// OpenRouter model metadata shared by the model picker and ChatNode settings
+
+import { useEffect, useRef, useState } from 'react'
+import { listModels } from '../functions/models'
+import { DEFAULT_MODEL_ID, DEFAULT_PROVIDER, type ProviderId } from './providers'
+
+export interface ModelInfo {
+  id: string
+  name: string
+  description?: string
+  contextLength: number | null
+  maxCompletionTokens: number | null
+  // USD per token
+  pricing: { prompt: number; completion: number }
+  inputModalities: string[]
+  outputModalities: string[]
+  // OpenRouter request parameter names, e.g. 'temperature', 'tools', 'top_k'
+  supportedParameters: string[]
+}
+
+// Names saved by workbenches created before models were picked from the catalog
+const LEGACY_MODEL_ALIASES: Record<string, string> = {
+  ChatGPT: 'openai/gpt-5.2-chat',
+  Claude: 'anthropic/claude-haiku-4.5',
+  Gemini: 'google/gemini-3-flash-preview',
+}
+
+export function resolveModelId(model: string | undefined): string {
+  if (!model) return DEFAULT_MODEL_ID
+  return LEGACY_MODEL_ALIASES[model] || model
+}
+
+// Unknown models (catalog not loaded yet, or model delisted) are assumed to support everything
+export function supportsParameter(model: ModelInfo | undefined, parameter: string): boolean {
+  return !model || model.supportedParameters.includes(parameter)
+}
+
+// Unknown models are assumed to accept images, like supportsParameter
+export function acceptsImages(model: ModelInfo | undefined): boolean {
+  return !model || model.inputModalities.includes('image')
+}
+
+export function getModelLabel(modelId: string, models: ModelInfo[]): string {
+  return models.find((model) => model.id === modelId)?.name || modelId
+}
+
+export function formatContextLength(tokens: number | null): string {
+  if (!tokens) return '?'
+  if (tokens >= 1_000_000) return `${+(tokens / 1_000_000).toFixed(1)}M`
+  return `${Math.round(tokens / 1_000)}k`
+}
+
+// Price per million tokens, the unit OpenRouter's own site uses
+export function formatPricePerMillion(pricePerToken: number): string {
+  if (pricePerToken === 0) return 'free'
+  const perMillion = pricePerToken * 1_000_000
+  return `$${perMillion < 1 ? perMillion.toFixed(3) : perMillion.toFixed(2)}`
+}
+
+// One catalog request per provider per page load, shared by every node
+const catalogPromises = new Map<ProviderId, Promise<ModelInfo[]>>()
+
+function fetchCatalog(provider: ProviderId, refresh = false): Promise<ModelInfo[]> {
+  let promise = catalogPromises.get(provider)
+  if (!promise || refresh) {
+    promise = listModels({ data: { refresh, provider } }).catch((error) => {
+      catalogPromises.delete(provider)
+      throw error
+    })
+    catalogPromises.set(provider, promise)
+  }
+  return promise
+}
+
+export type ModelCatalog = ReturnType<typeof useModelCatalog>
+
+export function useModelCatalog(provider: ProviderId = DEFAULT_PROVIDER) {
+  const [models, setModels] = useState<ModelInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Results for a provider the node has since switched away from are dropped
+  const providerRef = useRef(provider)
+  providerRef.current = provider
+
+  const load = (refresh = false) => {
+    setIsLoading(true)
+    setError(null)
+    const requested = provider
+    const isCurrent = () => providerRef.current === requested
+    return fetchCatalog(requested, refresh)
+      .then((models) => {
+        if (isCurrent()) setModels(models)
+      })
+      .catch((err) => {
+        console.error('Failed to load model catalog:', err)
+        if (isCurrent()) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (isCurrent()) setIsLoading(false)
+      })
+  }
+
+  useEffect(() => {
+    setModels([])
+    load()
+  }, [provider])
+
+  return { models, isLoading, error, refresh: () => load(true) }
+}
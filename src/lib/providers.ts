@@ -0,0 +1,62 @@
+// src/lib/providers.ts
+// LLM providers a ChatNode can talk to. The adapters live server-side in
+// src/functions/providers; this module only holds what the client needs.
+
+export const PROVIDER_IDS = ['openrouter', 'openai-compatible', 'mock'] as const
+
+export type ProviderId = (typeof PROVIDER_IDS)[number]
+
+export const DEFAULT_PROVIDER: ProviderId = 'openrouter'
+
+// OpenRouter model new nodes start with
+export const DEFAULT_MODEL_ID = 'anthropic/claude-haiku-4.5'
+
+export const MOCK_MODEL_ID = 'mock/echo'
+
+export const PROVIDERS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'openrouter', label: 'OpenRouter', description: 'Hosted models from every major lab' },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    description: 'Any server speaking the OpenAI API, e.g. a local llama.cpp or Ollama',
+  },
+  { id: 'mock', label: 'Mock', description: 'Deterministic offline replies for testing' },
+]
+
+// Model selected when a node switches provider; null means the first one the
+// provider lists, since local servers serve whatever was loaded into them
+export function getDefaultModel(provider: ProviderId): string | null {
+  switch (provider) {
+    case 'openrouter':
+      return DEFAULT_MODEL_ID
+    case 'mock':
+      return MOCK_MODEL_ID
+    default:
+      return null
+  }
+}
+
+export function getProviderLabel(provider: ProviderId): string {
+  return PROVIDERS.find((p) => p.id === provider)?.label || provider
+}
+
+// Providers that take a user's own API key; the mock provider needs none
+export const KEYED_PROVIDER_IDS = ['openrouter', 'openai-compatible'] as const
+
+export type KeyedProviderId = (typeof KEYED_PROVIDER_IDS)[number]
+
+export function isKeyedProvider(provider: ProviderId): provider is KeyedProviderId {
+  return (KEYED_PROVIDER_IDS as readonly string[]).includes(provider)
+}
+
+// Cheap shape check shared by the settings screen and the server, before any
+// request reaches the provider. Returns an error message, or null when valid.
+export function checkApiKeyFormat(provider: KeyedProviderId, apiKey: string): string | null {
+  if (!apiKey) return 'The API key is empty'
+  if (apiKey.length > 512) return 'The API key is too long'
+  if (/\s/.test(apiKey)) return 'The API key must not contain spaces'
+  if (provider === 'openrouter' && !/^sk-or-[\w-]{16,}$/.test(apiKey)) {
+    return 'OpenRouter keys start with "sk-or-"'
+  }
+  return null
+}
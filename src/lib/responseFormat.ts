@@ -0,0 +1,84 @@
+// src/lib/responseFormat.ts
+// Structured output for a ChatNode: plain JSON mode, or a user-supplied JSON
+// Schema enforced by the provider (`response_format`) and checked again here
+// with zod, since not every model honours the constraint.
+
+import { z } from 'zod'
+import { supportsParameter, type ModelInfo } from './modelCatalog'
+
+export type ResponseFormatMode = 'text' | 'json' | 'schema'
+
+export interface ResponseFormatSettings {
+  mode: ResponseFormatMode
+  // JSON Schema as typed in the settings panel
+  schema: string
+}
+
+export const DEFAULT_RESPONSE_FORMAT: ResponseFormatSettings = { mode: 'text', schema: '' }
+
+// One automatic repair request per reply before showing the errors
+export const MAX_REPAIR_ATTEMPTS = 1
+
+export function parseJsonSchema(text: string): { schema?: Record<string, unknown>; error?: string } {
+  if (!text.trim()) return { error: 'Enter a JSON Schema' }
+  try {
+    const schema = JSON.parse(text)
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return { error: 'The schema must be a JSON object' }
+    }
+    // Throws on schemas zod can't represent, so they are caught before sending
+    z.fromJSONSchema(schema)
+    return { schema }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+// Models without strict schema support still get JSON mode; validation catches the rest
+export function toPayloadResponseFormat(settings: ResponseFormatSettings, model: ModelInfo | undefined) {
+  if (settings.mode === 'text') return undefined
+  const { schema } = settings.mode === 'schema' ? parseJsonSchema(settings.schema) : {}
+  if (schema && supportsParameter(model, 'structured_outputs')) {
+    return { type: 'json_schema' as const, json_schema: { name: 'response', strict: true, schema } }
+  }
+  return { type: 'json_object' as const }
+}
+
+// Models sometimes wrap JSON in a Markdown fence despite JSON mode
+export function extractJson(content: string): string {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/)
+  return fenced ? fenced[1] : content.trim()
+}
+
+export interface JsonValidation {
+  valid: boolean
+  errors: string[]
+}
+
+export function validateStructuredReply(content: string, settings: ResponseFormatSettings): JsonValidation {
+  let value: unknown
+  try {
+    value = JSON.parse(extractJson(content))
+  } catch (error) {
+    return { valid: false, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  const { schema } = settings.mode === 'schema' ? parseJsonSchema(settings.schema) : {}
+  if (!schema) return { valid: true, errors: [] }
+
+  const result = z.fromJSONSchema(schema).safeParse(value)
+  if (result.success) return { valid: true, errors: [] }
+  return {
+    valid: false,
+    errors: result.error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`),
+  }
+}
+
+export function buildRepairPrompt(errors: string[], settings: ResponseFormatSettings): string {
+  return [
+    'Your previous reply did not match the required output format:',
+    ...errors.map((error) => `- ${error}`),
+    settings.mode === 'schema' ? `\nIt must be JSON that validates against this JSON Schema:\n${settings.schema}` : '',
+    '\nReply again with only the corrected JSON, no explanations and no Markdown.',
+  ].join('\n')
+}
@@ -0,0 +1,108 @@
+// src/lib/sampling.ts
+// Per-node sampling parameters and the limits OpenRouter documents for them
+// (openrouter.ai/docs/api/reference/parameters). Unset means "provider default".
+
+import { supportsParameter, type ModelInfo } from './modelCatalog'
+
+export interface SamplingParams {
+  maxTokens?: number
+  topP?: number
+  topK?: number
+  frequencyPenalty?: number
+  presencePenalty?: number
+  repetitionPenalty?: number
+  minP?: number
+  seed?: number
+  stop?: string[]
+  // Token id -> bias
+  logitBias?: Record<string, number>
+}
+
+export type NumericSamplingKey = Exclude<keyof SamplingParams, 'stop' | 'logitBias'>
+
+export interface NumericSamplingField {
+  key: NumericSamplingKey
+  // Request parameter name, as listed in a model's supported_parameters
+  parameter: string
+  label: string
+  // Undefined bounds are open (max_tokens is bounded by the model instead)
+  min?: number
+  max?: number
+  minExclusive?: boolean
+  integer?: boolean
+  step: number
+  hint: string
+}
+
+export const DEFAULT_TEMPERATURE = 0.7
+
+export const NUMERIC_SAMPLING_FIELDS: NumericSamplingField[] = [
+  { key: 'maxTokens', parameter: 'max_tokens', label: 'Max tokens', min: 1, integer: true, step: 1, hint: '[1, context length)' },
+  { key: 'topP', parameter: 'top_p', label: 'Top P', min: 0, max: 1, minExclusive: true, step: 0.01, hint: '(0, 1]' },
+  { key: 'topK', parameter: 'top_k', label: 'Top K', min: 1, integer: true, step: 1, hint: '[1, ∞), not for OpenAI models' },
+  { key: 'frequencyPenalty', parameter: 'frequency_penalty', label: 'Frequency penalty', min: -2, max: 2, step: 0.01, hint: '[-2, 2]' },
+  { key: 'presencePenalty', parameter: 'presence_penalty', label: 'Presence penalty', min: -2, max: 2, step: 0.01, hint: '[-2, 2]' },
+  { key: 'repetitionPenalty', parameter: 'repetition_penalty', label: 'Repetition penalty', min: 0, max: 2, minExclusive: true, step: 0.01, hint: '(0, 2]' },
+  { key: 'minP', parameter: 'min_p', label: 'Min P', min: 0, max: 1, step: 0.01, hint: '[0, 1]' },
+  { key: 'seed', parameter: 'seed', label: 'Seed', integer: true, step: 1, hint: 'integer' },
+]
+
+export const LOGIT_BIAS_RANGE = { min: -100, max: 100 }
+
+// Returns an error message, or null when the value is acceptable
+export function validateNumericSampling(field: NumericSamplingField, value: number, maxTokensLimit?: number | null): string | null {
+  if (!Number.isFinite(value)) return 'Must be a number'
+  if (field.integer && !Number.isInteger(value)) return 'Must be an integer'
+  if (field.min !== undefined && (field.minExclusive ? value <= field.min : value < field.min)) return `Must be in ${field.hint}`
+  if (field.max !== undefined && value > field.max) return `Must be in ${field.hint}`
+  if (field.key === 'maxTokens' && maxTokensLimit && value > maxTokensLimit) return `This model allows at most ${maxTokensLimit}`
+  return null
+}
+
+// Parses the `{ "token id": bias }` JSON edited in the settings panel
+export function parseLogitBias(text: string): Record<string, number> {
+  const parsed = JSON.parse(text)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Logit bias must be an object of token id to bias')
+  }
+  for (const [token, bias] of Object.entries(parsed)) {
+    if (!/^\d+$/.test(token)) throw new Error(`"${token}" is not a token id`)
+    if (typeof bias !== 'number' || bias < LOGIT_BIAS_RANGE.min || bias > LOGIT_BIAS_RANGE.max) {
+      throw new Error(`Bias for ${token} must be a number in [${LOGIT_BIAS_RANGE.min}, ${LOGIT_BIAS_RANGE.max}]`)
+    }
+  }
+  return parsed as Record<string, number>
+}
+
+export function countCustomSampling(params: SamplingParams): number {
+  return Object.values(params).filter((value) => value !== undefined).length
+}
+
+// Snake_case request fields for sendChatMessage, leaving out anything the model doesn't support
+export function toPayloadSampling(params: SamplingParams, model: ModelInfo | undefined) {
+  const payload: Record<string, unknown> = {}
+  for (const field of NUMERIC_SAMPLING_FIELDS) {
+    const value = params[field.key]
+    if (value !== undefined && supportsParameter(model, field.parameter)) {
+      payload[field.parameter] = value
+    }
+  }
+  if (params.stop?.length && supportsParameter(model, 'stop')) {
+    payload.stop = params.stop
+  }
+  if (params.logitBias && Object.keys(params.logitBias).length > 0 && supportsParameter(model, 'logit_bias')) {
+    payload.logit_bias = params.logitBias
+  }
+  return payload as {
+    max_tokens?: number
+    top_p?: number
+    top_k?: number
+    frequency_penalty?: number
+    presence_penalty?: number
+    repetition_penalty?: number
+    min_p?: number
+    seed?: number
+    stop?: string[]
+    logit_bias?: Record<string, number>
+  }
+}
@@ -0,0 +1,302 @@
+// src/lib/syncEngine.ts
+// Keeps the IndexedDB workbenches in step with the /api/workbenches routes.
+//
+// IndexedDB stays the working copy, so the app keeps working offline; every
+// cycle uploads new workbenches, pushes local edits, pulls remote ones and
+// replays deletions. The workbench open on screen is never rewritten under
+// the user: its edits are still pushed, but remote edits wait until the user
+// loads them (see mergeRemoteChanges).
+
+import { useSyncExternalStore } from 'react'
+import {
+  db,
+  forgetDeletedWorkbench,
+  forgetWorkbench,
+  listDeletedWorkbenches,
+  setWorkbenchSyncState,
+  storeMergedWorkbench,
+  type WorkbenchRecord,
+} from './db'
+import {
+  collectLocalChanges,
+  hasRemoteChanges,
+  markChangesSynced,
+  mergeRemoteWorkbench,
+  type LocalWorkbench,
+  type MergeResult,
+  type RemoteWorkbench,
+  type WorkbenchSummary,
+  type WorkbenchUpdate,
+  type WorkbenchUpdateResult,
+} from './workbenchSync'
+
+const SYNC_INTERVAL_MS = 30_000
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error'
+
+interface SyncSnapshot {
+  status: SyncStatus
+  lastSyncedAt: number | null
+  // Open workbenches with remote edits the user hasn't loaded yet
+  remoteChanges: string[]
+}
+
+let snapshot: SyncSnapshot = { status: 'idle', lastSyncedAt: null, remoteChanges: [] }
+const listeners = new Set<() => void>()
+const openWorkbenches = new Set<string>()
+let running: Promise<void> | null = null
+
+function setSnapshot(changes: Partial<SyncSnapshot>) {
+  snapshot = { ...snapshot, ...changes }
+  listeners.forEach((listener) => listener())
+}
+
+function setRemoteChanges(id: string, changed: boolean) {
+  if (snapshot.remoteChanges.includes(id) === changed) return
+  setSnapshot({
+    remoteChanges: changed ? [...snapshot.remoteChanges, id] : snapshot.remoteChanges.filter((other) => other !== id),
+  })
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useSyncStatus(): SyncSnapshot {
+  return useSyncExternalStore(subscribe, () => snapshot, () => snapshot)
+}
+
+class SyncRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'SyncRequestError'
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/workbenches${path}`, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  })
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null
+    throw new SyncRequestError(body?.error || `Request failed with status ${response.status}`, response.status)
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T
+}
+
+function isStatus(error: unknown, status: number): boolean {
+  return error instanceof SyncRequestError && error.status === status
+}
+
+function toLocalWorkbench(record: WorkbenchRecord): LocalWorkbench {
+  return {
+    name: record.name,
+    budget: record.budget ?? null,
+    nodes: record.nodes,
+    edges: record.edges,
+    nodeIdCounter: record.nodeIdCounter,
+    sync: record.sync,
+  }
+}
+
+function toRecord(base: Pick<WorkbenchRecord, 'id' | 'createdAt' | 'updatedAt'>, merged: MergeResult['workbench']): WorkbenchRecord {
+  return {
+    id: base.id,
+    createdAt: base.createdAt,
+    updatedAt: base.updatedAt,
+    name: merged.name,
+    budget: merged.budget ?? undefined,
+    nodes: merged.nodes,
+    edges: merged.edges,
+    nodeIdCounter: merged.nodeIdCounter,
+    sync: merged.sync,
+  }
+}
+
+function hasLocalChanges(update: WorkbenchUpdate): boolean {
+  return update.changes.length > 0 || update.name !== undefined || update.budget !== undefined
+}
+
+async function uploadWorkbench(record: WorkbenchRecord): Promise<void> {
+  try {
+    const remote = await request<RemoteWorkbench>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        id: record.id,
+        name: record.name,
+        budget: record.budget ?? null,
+        nodeIdCounter: record.nodeIdCounter,
+        nodes: record.nodes,
+        edges: record.edges,
+      }),
+    })
+    // Nothing was merged, so the uploaded content is exactly what the server holds
+    await setWorkbenchSyncState(record.id, mergeRemoteWorkbench({ ...toLocalWorkbench(record), sync: undefined }, remote).workbench.sync)
+    console.log(`[Sync] Uploaded ${record.name}`)
+  } catch (error) {
+    // Uploaded before, but the reply was lost: merge with what arrived
+    if (!isStatus(error, 409)) throw error
+    await mergeWorkbench(record, await request<RemoteWorkbench>(`/${record.id}`))
+  }
+}
+
+// Merge remote edits into a workbench that isn't open. Returns the stored
+// record, or null when it changed meanwhile and has to wait for the next cycle.
+async function mergeWorkbench(record: WorkbenchRecord, remote: RemoteWorkbench): Promise<WorkbenchRecord | null> {
+  const { workbench, conflicts } = mergeRemoteWorkbench(toLocalWorkbench(record), remote)
+  const merged = toRecord({ ...record, updatedAt: Math.max(record.updatedAt, remote.updatedAt) }, workbench)
+  if (!(await storeMergedWorkbench(merged, record))) return null
+  if (conflicts.length > 0) {
+    console.log(`[Sync] ${record.name}: ${conflicts.length} nodes edited on two devices, local versions kept as copies`)
+  }
+  return merged
+}
+
+async function pushChanges(record: WorkbenchRecord & { sync: NonNullable<WorkbenchRecord['sync']> }): Promise<void> {
+  const local = toLocalWorkbench(record)
+  const update = collectLocalChanges(local)
+  if (!hasLocalChanges(update)) return
+
+  const result = await request<WorkbenchUpdateResult>(`/${record.id}`, { method: 'PATCH', body: JSON.stringify(update) })
+  let sync = markChangesSynced(record.sync, update, result)
+  // Nothing else arrived with this update, so the new revision is fully known
+  if (!hasRemoteChanges({ ...local, sync }, result.workbench)) sync = { ...sync, revision: result.workbench.revision }
+  await setWorkbenchSyncState(record.id, sync)
+  console.log(
+    `[Sync] ${record.name}: pushed ${update.changes.length - result.conflicts.length} changes, ${result.conflicts.length} conflicts`
+  )
+}
+
+async function syncWorkbench(record: WorkbenchRecord, summary: WorkbenchSummary | undefined): Promise<void> {
+  if (!record.sync) return uploadWorkbench(record)
+  const isOpen = openWorkbenches.has(record.id)
+
+  if (!summary) {
+    // Deleted on another device; local edits since then bring it back
+    if (isOpen || hasLocalChanges(collectLocalChanges(toLocalWorkbench(record)))) {
+      console.log(`[Sync] ${record.name} was deleted elsewhere but has local edits, uploading it again`)
+      return uploadWorkbench({ ...record, sync: undefined })
+    }
+    console.log(`[Sync] ${record.name} was deleted on another device`)
+    return forgetWorkbench(record.id)
+  }
+
+  let current: WorkbenchRecord | null = record
+  if (summary.revision !== record.sync.revision) {
+    const remote = await request<RemoteWorkbench>(`/${record.id}`)
+    if (isOpen) {
+      setRemoteChanges(record.id, hasRemoteChanges(toLocalWorkbench(record), remote))
+    } else {
+      current = await mergeWorkbench(record, remote)
+    }
+  }
+  if (current?.sync) await pushChanges({ ...current, sync: current.sync })
+}
+
+async function pullWorkbench(summary: WorkbenchSummary): Promise<void> {
+  const remote = await request<RemoteWorkbench>(`/${summary.id}`)
+  const empty: LocalWorkbench = { name: remote.name, budget: remote.budget, nodes: [], edges: [], nodeIdCounter: 0 }
+  const { workbench } = mergeRemoteWorkbench(empty, remote)
+  const base = { id: remote.id, createdAt: remote.createdAt, updatedAt: remote.updatedAt }
+  if (await storeMergedWorkbench(toRecord(base, workbench))) {
+    console.log(`[Sync] Downloaded ${remote.name}`)
+  }
+}
+
+async function runSync(): Promise<void> {
+  if (!navigator.onLine) {
+    setSnapshot({ status: 'offline' })
+    return
+  }
+  setSnapshot({ status: 'syncing' })
+
+  try {
+    const summaries = new Map((await request<WorkbenchSummary[]>('')).map((summary) => [summary.id, summary]))
+
+    for (const id of await listDeletedWorkbenches()) {
+      try {
+        await request<void>(`/${id}`, { method: 'DELETE' })
+      } catch (error) {
+        if (!isStatus(error, 404)) throw error
+      }
+      await forgetDeletedWorkbench(id)
+      summaries.delete(id)
+    }
+
+    const records = await db.workbenches.toArray()
+    // One failing workbench shouldn't hold back the others
+    let failed = 0
+    for (const record of records) {
+      try {
+        await syncWorkbench(record, summaries.get(record.id))
+      } catch (error) {
+        failed++
+        console.error(`[Sync] Failed to sync ${record.name}:`, error)
+      }
+    }
+
+    const known = new Set(records.map((record) => record.id))
+    for (const summary of summaries.values()) {
+      if (known.has(summary.id)) continue
+      try {
+        await pullWorkbench(summary)
+      } catch (error) {
+        failed++
+        console.error(`[Sync] Failed to download ${summary.name}:`, error)
+      }
+    }
+
+    setSnapshot(failed > 0 ? { status: 'error' } : { status: 'idle', lastSyncedAt: Date.now() })
+  } catch (error) {
+    console.error('[Sync] Sync failed:', error)
+    setSnapshot({ status: navigator.onLine ? 'error' : 'offline' })
+  }
+}
+
+// Runs one cycle at a time; a request made mid-cycle joins the running one
+export function syncNow(): Promise<void> {
+  running =
+    running ||
+    runSync().finally(() => {
+      running = null
+    })
+  return running
+}
+
+// Start syncing for the signed-in user; returns a cleanup
+export function startWorkbenchSync(): () => void {
+  syncNow()
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS)
+  window.addEventListener('online', syncNow)
+  return () => {
+    clearInterval(interval)
+    window.removeEventListener('online', syncNow)
+  }
+}
+
+// Called by the canvas on screen, so remote edits don't replace it while in use
+export function markWorkbenchOpen(id: string): () => void {
+  openWorkbenches.add(id)
+  return () => {
+    openWorkbenches.delete(id)
+    setRemoteChanges(id, false)
+  }
+}
+
+// Merge remote edits into the open workbench once the user asks for them.
+// Save pending edits first; the caller reloads the canvas afterwards.
+export async function mergeRemoteChanges(id: string): Promise<void> {
+  await running
+  const record = await db.workbenches.get(id)
+  if (!record) return
+
+  const remote = await request<RemoteWorkbench>(`/${id}`)
+  const merged = await mergeWorkbench(record, remote)
+  if (!merged) throw new Error('The workbench changed while loading remote edits, try again')
+  setRemoteChanges(id, false)
+  if (merged.sync) await pushChanges({ ...merged, sync: merged.sync })
+}
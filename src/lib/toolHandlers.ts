@@ -0,0 +1,19 @@
+// src/lib/toolHandlers.ts
+// Client-side handlers that answer tool calls without user input.
+// A ChatNode tool whose name matches a registered handler runs automatically;
+// any other tool call waits for the user to type the result.
+
+export type ToolHandler = (args: Record<string, unknown>) => string | Promise<string>
+
+const handlers = new Map<string, ToolHandler>()
+
+export function registerToolHandler(name: string, handler: ToolHandler) {
+  handlers.set(name, handler)
+}
+
+export function getToolHandler(name: string): ToolHandler | undefined {
+  return handlers.get(name)
+}
+
+// Built-in handlers
+registerToolHandler('get_current_time', () => new Date().toISOString())
@@ -0,0 +1,88 @@
+// src/lib/usage.ts
+// Token and cost totals for messages, chat nodes and whole workbenches
+
+import type { Node } from '@xyflow/react'
+import type { Message, MessageUsage } from './chatTypes'
+
+export interface UsageTotals {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+  // Calls whose cost OpenRouter could not report; `cost` undercounts when > 0
+  unpricedCalls: number
+}
+
+export const EMPTY_USAGE: UsageTotals = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  unpricedCalls: 0,
+}
+
+export function addUsage(totals: UsageTotals, usage: MessageUsage | UsageTotals | undefined): UsageTotals {
+  if (!usage) return totals
+  const unpricedCalls = 'unpricedCalls' in usage ? usage.unpricedCalls : usage.cost === undefined ? 1 : 0
+  return {
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    totalTokens: totals.totalTokens + usage.totalTokens,
+    cost: totals.cost + (usage.cost ?? 0),
+    unpricedCalls: totals.unpricedCalls + unpricedCalls,
+  }
+}
+
+// Usage of a reply produced in several requests, e.g. one that was continued
+export function combineMessageUsage(a?: MessageUsage, b?: MessageUsage): MessageUsage | undefined {
+  if (!a || !b) return a || b
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost !== undefined && b.cost !== undefined ? a.cost + b.cost : undefined,
+  }
+}
+
+export function sumMessageUsage(messages: Message[]): UsageTotals {
+  return messages.reduce((totals, message) => addUsage(totals, message.usage), EMPTY_USAGE)
+}
+
+// Everything a chat node has spent: its replies plus the summaries it generated
+export function getChatNodeUsage(data: Record<string, unknown>): UsageTotals {
+  const conversation = (data.conversation as Message[] | undefined) || []
+  return addUsage(sumMessageUsage(conversation), data.summaryUsage as UsageTotals | undefined)
+}
+
+export function getWorkbenchUsage(nodes: Node[]): UsageTotals {
+  return nodes
+    .filter((node) => node.type === 'chatNode')
+    .reduce((totals, node) => addUsage(totals, getChatNodeUsage(node.data)), EMPTY_USAGE)
+}
+
+// Best guess at what the next reply will cost: the most recent priced reply in the conversation
+export function estimateNextCost(messages: Message[]): number {
+  const lastPriced = [...messages].reverse().find((m) => m.usage?.cost !== undefined)
+  return lastPriced?.usage?.cost ?? 0
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+export function formatMessageUsage(usage: MessageUsage): string {
+  return formatUsage(addUsage(EMPTY_USAGE, usage))
+}
+
+export function formatUsage(totals: UsageTotals): string {
+  const cost = `${formatCost(totals.cost)}${totals.unpricedCalls > 0 ? '+' : ''}`
+  return `${formatTokens(totals.totalTokens)} tokens · ${cost}`
+}
@@ -0,0 +1,410 @@
+// src/lib/workbenchFile.ts
+import { z } from 'zod'
+import type { Edge, Node } from '@xyflow/react'
+import { FORK_EDGE_KIND, createForkEdge, isForkEdge } from './fork'
+import { PROVIDER_IDS } from './providers'
+
+/**
+ * Workbench export file (`*.wrkbench.json`).
+ *
+ * {
+ *   "format": "wrkbench",
+ *   "version": 2,
+ *   "exportedAt": "2026-01-02T10:00:00.000Z",
+ *   "workbench": {
+ *     "name": "Client research",
+ *     "nodes": [
+ *       {
+ *         "id": "node-2",
+ *         "type": "chatNode" | "contextNode",
+ *         "position": { "x": 250, "y": 150 },
+ *         "size": { "width": 600, "height": 600 },   // optional
+ *         "data": { ...see chatNodeDataSchema / contextNodeDataSchema }
+ *       }
+ *     ],
+ *     "edges": [{ "id": "...", "source": "node-2", "target": "node-3", "context": { ... } }]
+ *   }
+ * }
+ *
+ * Bump WORKBENCH_FILE_VERSION whenever a change would make older readers
+ * misinterpret a file; readers reject files newer than they understand.
+ *
+ *   1  chat conversations are a flat list of messages
+ *   2  chat conversations are a tree (`parentId`, `activeLeafId`)
+ */
+export const WORKBENCH_FILE_FORMAT = 'wrkbench'
+export const WORKBENCH_FILE_VERSION = 2
+
+const replyToSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  role: z.enum(['user', 'assistant']),
+})
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.string(),
+})
+
+const usageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  cost: z.number().optional(),
+})
+
+const usageTotalsSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  cost: z.number(),
+  unpricedCalls: z.number(),
+})
+
+// Images and PDFs carry their data URL, text files their text
+const attachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  kind: z.enum(['image', 'pdf', 'text']),
+  size: z.number(),
+  dataUrl: z.string().optional(),
+  text: z.string().optional(),
+})
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant', 'tool']),
+  content: z.string(),
+  // Message this one follows in the conversation tree; absent in files exported before branching
+  parentId: z.string().nullable().optional(),
+  // A single object in files exported before multiple replies were supported
+  replyTo: z
+    .union([replyToSchema, z.array(replyToSchema)])
+    .transform((replyTo) => (Array.isArray(replyTo) ? replyTo : [replyTo]))
+    .optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  // Assistant tool requests and the tool results answering them
+  toolCalls: z.array(toolCallSchema).optional(),
+  toolCallId: z.string().optional(),
+  name: z.string().optional(),
+  // Streamed reply metadata
+  reasoning: z.string().optional(),
+  model: z.string().optional(),
+  finishReason: z.string().optional(),
+  usage: usageSchema.optional(),
+  error: z.string().optional(),
+  truncated: z.boolean().optional(),
+  jsonValidation: z.object({ valid: z.boolean(), errors: z.array(z.string()) }).optional(),
+  compareGroup: z.string().optional(),
+  contextEvent: z.enum(['connected', 'updated', 'disconnected']).optional(),
+  pinned: z.boolean().optional(),
+})
+
+const toolDefinitionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  parameters: z.record(z.string(), z.unknown()),
+})
+
+const samplingSchema = z.object({
+  maxTokens: z.number().int().min(1).optional(),
+  topP: z.number().gt(0).max(1).optional(),
+  topK: z.number().int().min(1).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  repetitionPenalty: z.number().gt(0).max(2).optional(),
+  minP: z.number().min(0).max(1).optional(),
+  seed: z.number().int().optional(),
+  stop: z.array(z.string()).optional(),
+  logitBias: z.record(z.string(), z.number().min(-100).max(100)).optional(),
+})
+
+const placedContextSchema = z.object({
+  sourceId: z.string(),
+  label: z.string(),
+  text: z.string(),
+  placement: z.enum(['system', 'user']),
+})
+
+const chatNodeDataSchema = z.object({
+  label: z.string().optional(),
+  // Every message of every branch in the node
+  conversation: z.array(chatMessageSchema).optional(),
+  // Last message of the branch shown in the node
+  activeLeafId: z.string().nullable().optional(),
+  // Defaults to OpenRouter for files written before providers were selectable
+  provider: z.enum(PROVIDER_IDS).optional(),
+  // Model id within the provider, or a legacy 'ChatGPT' / 'Claude' / 'Gemini' alias
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  sampling: samplingSchema.optional(),
+  systemPrompt: z.string().optional(),
+  outputFormat: z.enum(['transcript', 'summary', 'keypoints']).optional(),
+  autoApply: z.boolean().optional(),
+  tools: z.array(toolDefinitionSchema).optional(),
+  toolChoice: z.union([z.enum(['auto', 'none']), z.object({ name: z.string() })]).optional(),
+  compareMode: z.boolean().optional(),
+  compareModels: z.array(z.string()).optional(),
+  fallbackModels: z.array(z.string()).optional(),
+  responseFormat: z.object({ mode: z.enum(['text', 'json', 'schema']), schema: z.string() }).optional(),
+  // 'live' sends connected inputs as a context block instead of injected messages
+  contextMode: z.enum(['inject', 'live']).optional(),
+  lastSentContexts: z.array(placedContextSchema).optional(),
+  contextStrategy: z.enum(['warn', 'dropOldest', 'summarize']).optional(),
+  // Output last applied to connected child nodes
+  messages: z.array(chatMessageSchema).optional(),
+  summaryUsage: usageTotalsSchema.optional(),
+})
+
+const contextNodeDataSchema = z.object({
+  label: z.string().optional(),
+  text: z.string().optional(),
+  initialText: z.string().optional(),
+})
+
+const positionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+})
+
+const sizeSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+})
+
+const fileNodeSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('chatNode'),
+    position: positionSchema,
+    size: sizeSchema.optional(),
+    data: chatNodeDataSchema,
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal('contextNode'),
+    position: positionSchema,
+    size: sizeSchema.optional(),
+    data: contextNodeDataSchema,
+  }),
+])
+
+const fileEdgeSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  sourceHandle: z.string().nullable().optional(),
+  targetHandle: z.string().nullable().optional(),
+  // 'fork' edges mark where a chat was forked and carry no context
+  kind: z.enum(['fork']).optional(),
+  // What a chat-to-chat connection sends and where; absent means full transcript as an assistant note
+  context: z
+    .object({
+      content: z.enum(['full', 'lastN', 'assistant', 'summary', 'keypoints']),
+      lastN: z.number().int().min(1),
+      placement: z.enum(['system', 'user', 'assistant']),
+    })
+    .optional(),
+})
+
+const workbenchContentSchema = z
+  .object({
+    name: z.string(),
+    nodes: z.array(fileNodeSchema),
+    edges: z.array(fileEdgeSchema),
+  })
+  .superRefine((workbench, ctx) => {
+    const nodeIds = new Set<string>()
+    workbench.nodes.forEach((node, index) => {
+      if (nodeIds.has(node.id)) {
+        ctx.addIssue({ code: 'custom', path: ['nodes', index, 'id'], message: `Duplicate node id "${node.id}"` })
+      }
+      nodeIds.add(node.id)
+    })
+    workbench.edges.forEach((edge, index) => {
+      if (!nodeIds.has(edge.source)) {
+        ctx.addIssue({ code: 'custom', path: ['edges', index, 'source'], message: `Unknown node "${edge.source}"` })
+      }
+      if (!nodeIds.has(edge.target)) {
+        ctx.addIssue({ code: 'custom', path: ['edges', index, 'target'], message: `Unknown node "${edge.target}"` })
+      }
+    })
+  })
+
+const workbenchFileSchema = z.object({
+  format: z.literal(WORKBENCH_FILE_FORMAT),
+  version: z.literal(WORKBENCH_FILE_VERSION),
+  exportedAt: z.string(),
+  workbench: workbenchContentSchema,
+})
+
+// Version 1 files differ only in how conversations are stored; see migrateVersion1
+const version1FileSchema = workbenchFileSchema.extend({ version: z.literal(1) })
+
+// Enough of any file to tell whether it can be read
+const fileHeaderSchema = z.object({
+  format: z.literal(WORKBENCH_FILE_FORMAT),
+  version: z.number(),
+})
+
+export type WorkbenchFile = z.infer<typeof workbenchFileSchema>
+
+export class WorkbenchFileError extends Error {
+  issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'WorkbenchFileError'
+    this.issues = issues
+  }
+}
+
+function getNodeSize(node: Node) {
+  const width = node.width ?? node.style?.width ?? node.measured?.width
+  const height = node.height ?? node.style?.height ?? node.measured?.height
+  if (typeof width !== 'number' || typeof height !== 'number') return undefined
+  return { width, height }
+}
+
+export function exportWorkbenchFile(name: string, nodes: Node[], edges: Edge[]): WorkbenchFile {
+  const file = {
+    format: WORKBENCH_FILE_FORMAT,
+    version: WORKBENCH_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workbench: {
+      name,
+      nodes: nodes.map((node) => ({
+        id: node.id,
+        type: node.type,
+        position: node.position,
+        size: getNodeSize(node),
+        data: node.data,
+      })),
+      edges: edges.map((edge) => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle,
+        targetHandle: edge.targetHandle,
+        kind: isForkEdge(edge) ? FORK_EDGE_KIND : undefined,
+        context: edge.data?.context,
+      })),
+    },
+  }
+
+  // Parsing drops anything the file format doesn't document (callbacks, UI state)
+  return workbenchFileSchema.parse(file)
+}
+
+export function downloadWorkbenchFile(file: WorkbenchFile) {
+  const slug = file.workbench.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workbench'
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${slug}.wrkbench.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export function parseWorkbenchFile(text: string): WorkbenchFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new WorkbenchFileError(`The file is not valid JSON: ${(error as Error).message}`)
+  }
+
+  const header = fileHeaderSchema.safeParse(json)
+  if (!header.success) {
+    throw new WorkbenchFileError('The file is not a WrkBench export')
+  }
+
+  const { version } = header.data
+  if (version > WORKBENCH_FILE_VERSION) {
+    throw new WorkbenchFileError(
+      `The file was exported by a newer version of WrkBench (file version ${version}, supported up to ${WORKBENCH_FILE_VERSION})`
+    )
+  }
+
+  const result = version === 1 ? version1FileSchema.safeParse(json) : workbenchFileSchema.safeParse(json)
+  if (!result.success) {
+    throw new WorkbenchFileError(
+      'The file does not match the workbench format',
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    )
+  }
+
+  return result.data.version === 1 ? migrateVersion1(result.data) : result.data
+}
+
+type FileChatMessage = z.infer<typeof chatMessageSchema>
+
+// Version 1 stored each conversation as a flat list, oldest first: chain the
+// messages into a single branch ending at the last one. Lists that already
+// carry parent ids are left as they are.
+function migrateVersion1(file: z.infer<typeof version1FileSchema>): WorkbenchFile {
+  const toTree = (conversation: FileChatMessage[]): FileChatMessage[] => {
+    if (conversation.some((m) => m.parentId !== undefined)) return conversation
+    return conversation.map((m, index) => ({ ...m, parentId: index === 0 ? null : conversation[index - 1].id }))
+  }
+
+  return {
+    ...file,
+    version: WORKBENCH_FILE_VERSION,
+    workbench: {
+      ...file.workbench,
+      nodes: file.workbench.nodes.map((node) => {
+        if (node.type !== 'chatNode' || !node.data.conversation) return node
+        const conversation = toTree(node.data.conversation)
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            conversation,
+            activeLeafId: node.data.activeLeafId !== undefined ? node.data.activeLeafId : conversation.at(-1)?.id ?? null,
+          },
+        }
+      }),
+    },
+  }
+}
+
+// Give every imported node a fresh `node-N` id starting at nodeIdCounter and
+// rewire the edges, so imports never collide with nodes already on the canvas.
+export function instantiateWorkbenchFile(file: WorkbenchFile, nodeIdCounter: number) {
+  const idMap = new Map<string, string>()
+  let nextId = nodeIdCounter
+
+  const nodes: Node[] = file.workbench.nodes.map((fileNode) => {
+    const id = `node-${nextId++}`
+    idMap.set(fileNode.id, id)
+    return {
+      id,
+      type: fileNode.type,
+      position: fileNode.position,
+      data: fileNode.data,
+      style: fileNode.size,
+    }
+  })
+
+  const edges: Edge[] = file.workbench.edges.map((fileEdge) => {
+    const source = idMap.get(fileEdge.source)!
+    const target = idMap.get(fileEdge.target)!
+    if (fileEdge.kind === FORK_EDGE_KIND) return createForkEdge(source, target)
+    return {
+      id: `xy-edge__${source}${fileEdge.sourceHandle || ''}-${target}${fileEdge.targetHandle || ''}`,
+      source,
+      target,
+      sourceHandle: fileEdge.sourceHandle,
+      targetHandle: fileEdge.targetHandle,
+      data: fileEdge.context ? { context: fileEdge.context } : undefined,
+    }
+  })
+
+  return { nodes, edges, nodeIdCounter: nextId }
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import type { Edge, Node } from '@xyflow/react'
+import {
+  collectLocalChanges,
+  hasRemoteChanges,
+  markChangesSynced,
+  mergeRemoteWorkbench,
+  type LocalWorkbench,
+  type RemoteWorkbench,
+  type SyncEntity,
+  type WorkbenchUpdate,
+} from './workbenchSync'
+
+const node = (id: string, label: string): Node => ({ id, type: 'chatNode', position: { x: 10, y: 20 }, data: { label } })
+const edge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target })
+
+function remoteWorkbench(revision: number, entities: SyncEntity[], changes: Partial<RemoteWorkbench> = {}): RemoteWorkbench {
+  return { id: 'w', name: 'Research', budget: null, nodeIdCounter: 3, revision, entities, createdAt: 0, updatedAt: 0, ...changes }
+}
+
+// A local copy in step with revision 1: nodes 1 and 2, connected
+function syncedCopy() {
+  const remote = remoteWorkbench(1, [
+    { kind: 'node', id: '1', revision: 1, data: node('1', 'a') },
+    { kind: 'node', id: '2', revision: 1, data: node('2', 'b') },
+    { kind: 'edge', id: '1-2', revision: 1, data: edge('1', '2') },
+  ])
+  const empty: LocalWorkbench = { name: 'Research', budget: null, nodes: [], edges: [], nodeIdCounter: 0 }
+  return { remote, local: mergeRemoteWorkbench(empty, remote).workbench }
+}
+
+// The server's copy after another device sent `changes`
+function remoteAfter(remote: RemoteWorkbench, changes: SyncEntity[]): RemoteWorkbench {
+  const keys = new Set(changes.map((change) => `${change.kind}:${change.id}`))
+  const revision = Math.max(remote.revision, ...changes.map((change) => change.revision))
+  return { ...remote, revision, entities: [...remote.entities.filter((e) => !keys.has(`${e.kind}:${e.id}`)), ...changes] }
+}
+
+const labels = (local: LocalWorkbench) => local.nodes.map((n) => [n.id, n.data.label])
+
+describe('collectLocalChanges', () => {
+  it('finds nothing to send on a fresh copy', () => {
+    const { local } = syncedCopy()
+    expect(collectLocalChanges(local)).toEqual({ nodeIdCounter: 3, changes: [] })
+  })
+
+  it('sends edits, additions and deletions with their base revisions', () => {
+    const { local } = syncedCopy()
+    const edited: LocalWorkbench = {
+      ...local,
+      name: 'Renamed',
+      nodes: [node('1', 'a2'), node('3', 'c')],
+      edges: [],
+    }
+
+    const update = collectLocalChanges(edited)
+    expect(update.name).toBe('Renamed')
+    expect(update.changes).toEqual([
+      { kind: 'node', id: '1', baseRevision: 1, data: node('1', 'a2') },
+      { kind: 'node', id: '3', baseRevision: null, data: node('3', 'c') },
+      { kind: 'node', id: '2', baseRevision: 1, data: null },
+      { kind: 'edge', id: '1-2', baseRevision: 1, data: null },
+    ])
+  })
+})
+
+describe('markChangesSynced', () => {
+  it('records accepted changes and leaves refused ones pending', () => {
+    const { local } = syncedCopy()
+    const edited = { ...local, nodes: [node('1', 'a2'), node('2', 'b2')] }
+    const update: WorkbenchUpdate = collectLocalChanges(edited)
+    const server = remoteAfter(syncedCopy().remote, [
+      { kind: 'node', id: '1', revision: 2, data: node('1', 'a2') },
+      { kind: 'node', id: '2', revision: 2, data: node('2', 'from elsewhere') },
+    ])
+
+    const sync = markChangesSynced(local.sync, update, { workbench: server, conflicts: [{ kind: 'node', id: '2' }] })
+    const pending = collectLocalChanges({ ...edited, sync })
+    expect(pending.changes.map((change) => change.id)).toEqual(['2'])
+    expect(hasRemoteChanges({ ...edited, sync }, server)).toBe(true)
+  })
+})
+
+describe('mergeRemoteWorkbench', () => {
+  it('takes remote edits to nodes that were not touched here', () => {
+    const { local, remote } = syncedCopy()
+    const server = remoteAfter(remote, [{ kind: 'node', id: '2', revision: 2, data: node('2', 'remote') }])
+
+    const { workbench, conflicts } = mergeRemoteWorkbench(local, server)
+    expect(conflicts).toEqual([])
+    expect(labels(workbench)).toEqual([['1', 'a'], ['2', 'remote']])
+    expect(workbench.sync.revision).toBe(2)
+  })
+
+  it('keeps local edits of other nodes and still sends them afterwards', () => {
+    const { local, remote } = syncedCopy()
+    const edited = { ...local, nodes: [node('1', 'local'), node('2', 'b')] }
+    const server = remoteAfter(remote, [{ kind: 'node', id: '2', revision: 2, data: node('2', 'remote') }])
+
+    const { workbench, conflicts } = mergeRemoteWorkbench(edited, server)
+    expect(conflicts).toEqual([])
+    expect(labels(workbench)).toEqual([['1', 'local'], ['2', 'remote']])
+    expect(collectLocalChanges(workbench).changes).toEqual([
+      { kind: 'node', id: '1', baseRevision: 1, data: node('1', 'local') },
+    ])
+  })
+
+  it('keeps the local version of a node edited on both sides as a copy', () => {
+    const { local, remote } = syncedCopy()
+    const edited = { ...local, nodes: [node('1', 'local'), node('2', 'b')] }
+    const server = remoteAfter(remote, [{ kind: 'node', id: '1', revision: 2, data: node('1', 'remote') }])
+
+    const { workbench, conflicts } = mergeRemoteWorkbench(edited, server)
+    expect(conflicts).toEqual([{ id: '1', copyId: 'node-3' }])
+    expect(labels(workbench)).toEqual([['1', 'remote'], ['node-3', 'local (conflict)'], ['2', 'b']])
+    expect(workbench.nodes[1].position).toEqual({ x: 50, y: 60 })
+    expect(workbench.nodeIdCounter).toBe(4)
+    // The copy is new to the server; the original now matches it
+    expect(collectLocalChanges(workbench).changes.map((change) => change.id)).toEqual(['node-3'])
+  })
+
+  it('does not report a conflict when both sides made the same edit', () => {
+    const { local, remote } = syncedCopy()
+    const edited = { ...local, nodes: [node('1', 'same'), node('2', 'b')] }
+    const server = remoteAfter(remote, [{ kind: 'node', id: '1', revision: 2, data: node('1', 'same') }])
+
+    const { workbench, conflicts } = mergeRemoteWorkbench(edited, server)
+    expect(conflicts).toEqual([])
+    expect(labels(workbench)).toEqual([['1', 'same'], ['2', 'b']])
+  })
+
+  it('drops nodes deleted remotely along with their connections', () => {
+    const { local, remote } = syncedCopy()
+    const server = remoteAfter(remote, [{ kind: 'node', id: '2', revision: 2, data: null }])
+
+    const { workbench } = mergeRemoteWorkbench(local, server)
+    expect(labels(workbench)).toEqual([['1', 'a']])
+    expect(workbench.edges).toEqual([])
+    expect(hasRemoteChanges(workbench, server)).toBe(false)
+  })
+
+  it('keeps a local rename unless the server renamed it too', () => {
+    const { local, remote } = syncedCopy()
+    expect(mergeRemoteWorkbench({ ...local, name: 'Local' }, remote).workbench.name).toBe('Local')
+    expect(mergeRemoteWorkbench({ ...local, name: 'Local' }, { ...remote, name: 'Remote' }).workbench.name).toBe('Remote')
+  })
+})
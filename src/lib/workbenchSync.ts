@@ -0,0 +1,254 @@
+// src/lib/workbenchSync.ts
+// The workbench sync protocol shared by the /api/workbenches routes and the
+// client sync engine (lib/syncEngine.ts).
+//
+// The server keeps every node and edge of a canvas as a separate entity with
+// its own revision. Clients send only the entities they changed, each with
+// the revision their edit was based on, so two devices editing different
+// nodes of the same canvas never conflict. An entity edited on both sides is
+// a conflict: the server keeps its version and the client keeps its own as a
+// copy next to it (see mergeRemoteWorkbench).
+
+import type { Edge, Node } from '@xyflow/react'
+
+export type EntityKind = 'node' | 'edge'
+
+export interface SyncEntity {
+  kind: EntityKind
+  id: string
+  revision: number
+  // null once deleted; kept so clients learn about the deletion
+  data: Node | Edge | null
+}
+
+export interface RemoteWorkbench {
+  id: string
+  name: string
+  budget: number | null
+  nodeIdCounter: number
+  // Bumped by every accepted update; entities changed by it share the number
+  revision: number
+  entities: SyncEntity[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface WorkbenchSummary {
+  id: string
+  name: string
+  revision: number
+  updatedAt: number
+}
+
+export interface EntityChange {
+  kind: EntityKind
+  id: string
+  // Revision the edit started from; null for entities created locally
+  baseRevision: number | null
+  data: Node | Edge | null
+}
+
+export interface WorkbenchUpdate {
+  name?: string
+  budget?: number | null
+  nodeIdCounter?: number
+  changes: EntityChange[]
+}
+
+export interface WorkbenchUpdateResult {
+  workbench: RemoteWorkbench
+  // Changes refused because the entity changed on the server since baseRevision
+  conflicts: { kind: EntityKind; id: string }[]
+}
+
+// What a local copy last agreed on with the server, stored with the record
+export interface WorkbenchSyncState {
+  // Highest server revision merged into the local copy
+  revision: number
+  entities: Record<string, { revision: number; hash: string }>
+  name: string
+  budget: number | null
+}
+
+export function getEntityKey(kind: EntityKind, id: string): string {
+  return `${kind}:${id}`
+}
+
+// FNV-1a over the JSON form; only used to notice local edits, not for security
+export function hashEntity(data: Node | Edge | null): string {
+  if (data === null) return 'deleted'
+  const json = JSON.stringify(data)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+// A canvas as the sync code sees it: name, budget and keyed entities
+export interface LocalWorkbench {
+  name: string
+  budget: number | null
+  nodes: Node[]
+  edges: Edge[]
+  nodeIdCounter: number
+  sync?: WorkbenchSyncState
+}
+
+function toEntityMap(workbench: Pick<LocalWorkbench, 'nodes' | 'edges'>): Map<string, { kind: EntityKind; data: Node | Edge }> {
+  const entities = new Map<string, { kind: EntityKind; data: Node | Edge }>()
+  for (const node of workbench.nodes) entities.set(getEntityKey('node', node.id), { kind: 'node', data: node })
+  for (const edge of workbench.edges) entities.set(getEntityKey('edge', edge.id), { kind: 'edge', data: edge })
+  return entities
+}
+
+// Everything edited locally since the last sync, ready to send
+export function collectLocalChanges(local: LocalWorkbench): WorkbenchUpdate {
+  const known = local.sync?.entities || {}
+  const current = toEntityMap(local)
+  const changes: EntityChange[] = []
+
+  for (const [key, entity] of current) {
+    const base = known[key]
+    if (!base || base.hash !== hashEntity(entity.data)) {
+      changes.push({ kind: entity.kind, id: entity.data.id, baseRevision: base?.revision ?? null, data: entity.data })
+    }
+  }
+  for (const [key, base] of Object.entries(known)) {
+    if (!current.has(key) && base.hash !== 'deleted') {
+      const [kind, ...id] = key.split(':')
+      changes.push({ kind: kind as EntityKind, id: id.join(':'), baseRevision: base.revision, data: null })
+    }
+  }
+
+  return {
+    ...(local.name !== local.sync?.name ? { name: local.name } : {}),
+    ...(local.budget !== (local.sync ? local.sync.budget : null) ? { budget: local.budget } : {}),
+    nodeIdCounter: local.nodeIdCounter,
+    changes,
+  }
+}
+
+// Record the changes the server accepted, so they are not sent again
+export function markChangesSynced(
+  sync: WorkbenchSyncState,
+  update: WorkbenchUpdate,
+  result: WorkbenchUpdateResult
+): WorkbenchSyncState {
+  const refused = new Set(result.conflicts.map((conflict) => getEntityKey(conflict.kind, conflict.id)))
+  const remote = new Map(result.workbench.entities.map((entity) => [getEntityKey(entity.kind, entity.id), entity]))
+  const entities = { ...sync.entities }
+
+  for (const change of update.changes) {
+    const key = getEntityKey(change.kind, change.id)
+    const accepted = remote.get(key)
+    if (refused.has(key) || !accepted) continue
+    entities[key] = { revision: accepted.revision, hash: hashEntity(change.data) }
+  }
+
+  return {
+    ...sync,
+    entities,
+    name: update.name ?? sync.name,
+    budget: update.budget !== undefined ? update.budget : sync.budget,
+  }
+}
+
+// Whether the server holds edits the local copy has not merged yet
+export function hasRemoteChanges(local: LocalWorkbench, remote: RemoteWorkbench): boolean {
+  const known = local.sync?.entities || {}
+  return (
+    remote.name !== local.sync?.name ||
+    remote.budget !== (local.sync ? local.sync.budget : null) ||
+    remote.entities.some((entity) => known[getEntityKey(entity.kind, entity.id)]?.revision !== entity.revision)
+  )
+}
+
+export interface MergeResult {
+  workbench: LocalWorkbench & { sync: WorkbenchSyncState }
+  // Nodes edited on both sides; the local version now lives under a new id
+  conflicts: { id: string; copyId: string }[]
+}
+
+// Bring remote edits into the local copy. Per entity: edits made on only one
+// side win, untouched entities follow the server, and entities edited on both
+// sides take the server version while the local node is kept as a copy.
+export function mergeRemoteWorkbench(local: LocalWorkbench, remote: RemoteWorkbench): MergeResult {
+  const known = local.sync?.entities || {}
+  const current = toEntityMap(local)
+  const remoteEntities = new Map(remote.entities.map((entity) => [getEntityKey(entity.kind, entity.id), entity]))
+  const keys = new Set([...current.keys(), ...remoteEntities.keys()])
+
+  const nodes: Node[] = []
+  const edges: Edge[] = []
+  const entities: WorkbenchSyncState['entities'] = {}
+  const conflicts: MergeResult['conflicts'] = []
+  let nodeIdCounter = Math.max(local.nodeIdCounter, remote.nodeIdCounter)
+
+  const keep = (kind: EntityKind, data: Node | Edge | null) => {
+    if (!data) return
+    if (kind === 'node') nodes.push(data as Node)
+    else edges.push(data as Edge)
+  }
+
+  for (const key of keys) {
+    const mine = current.get(key)
+    const theirs = remoteEntities.get(key)
+    const base = known[key]
+    const kind = (mine?.kind || theirs!.kind) as EntityKind
+    const mineData = mine?.data ?? null
+    const localChanged = !base ? !!mine : base.hash !== hashEntity(mineData)
+    const remoteChanged = !base ? !!theirs : base.revision !== theirs?.revision
+
+    if (theirs) entities[key] = { revision: theirs.revision, hash: hashEntity(theirs.data) }
+
+    if (!localChanged || (!remoteChanged && !theirs)) {
+      // Unchanged here (or never reached the server): follow the server when it has the entity
+      keep(kind, theirs ? theirs.data : mineData)
+      if (!theirs) delete entities[key]
+    } else if (!remoteChanged) {
+      // Only edited here; the next push sends it
+      keep(kind, mineData)
+      if (base) entities[key] = base
+    } else {
+      // Edited on both sides
+      keep(kind, theirs?.data ?? null)
+      if (hashEntity(mineData) === hashEntity(theirs?.data ?? null)) continue
+      if (kind === 'node' && mineData) {
+        const copyId = `node-${nodeIdCounter++}`
+        const node = mineData as Node
+        nodes.push({
+          ...node,
+          id: copyId,
+          position: { x: node.position.x + 40, y: node.position.y + 40 },
+          data: { ...node.data, label: `${(node.data.label as string | undefined) || 'Node'} (conflict)` },
+        })
+        conflicts.push({ id: node.id, copyId })
+      }
+    }
+  }
+
+  // Connections to nodes deleted on either side go with them
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  const connectedEdges = edges.filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+
+  const nameChanged = local.name !== local.sync?.name
+  const localBudget = local.sync ? local.sync.budget : null
+  return {
+    workbench: {
+      name: nameChanged && remote.name === local.sync?.name ? local.name : remote.name,
+      budget: local.budget !== localBudget && remote.budget === localBudget ? local.budget : remote.budget,
+      nodes,
+      edges: connectedEdges,
+      nodeIdCounter,
+      sync: {
+        revision: remote.revision,
+        entities,
+        name: remote.name,
+        budget: remote.budget,
+      },
+    },
+    conflicts,
+  }
+}
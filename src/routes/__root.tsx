@@ -1,12 +1,24 @@
-import { HeadContent, Scripts, createRootRoute } from '@tanstack/react-router'
+import { HeadContent, Scripts, createRootRoute, redirect } from '@tanstack/react-router'
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools'
 import { TanStackDevtools } from '@tanstack/react-devtools'
+import { useEffect } from 'react'
 
 import Header from '../components/Header'
+import { getSession } from '../functions/auth'
+import { selectDatabaseUser } from '../lib/db'
+import { startWorkbenchSync } from '../lib/syncEngine'
 
 import appCss from '../styles.css?url'
 
 export const Route = createRootRoute({
+  // Everything except the sign-in page needs a signed-in user
+  beforeLoad: async ({ location }) => {
+    const session = await getSession()
+    if (!session.user && location.pathname !== '/login') {
+      throw redirect({ to: '/login', search: { redirect: location.href } })
+    }
+    return session
+  },
   head: () => ({
     meta: [
       {
@@ -32,6 +44,16 @@ export const Route = createRootRoute({
 })
 
 function RootDocument({ children }: { children: React.ReactNode }) {
+  const { user } = Route.useRouteContext()
+  // Before any child reads IndexedDB; a no-op once selected
+  if (user) selectDatabaseUser(user.id)
+
+  // Back up workbenches to the server and bring in edits from other devices
+  useEffect(() => {
+    if (!user) return
+    return startWorkbenchSync()
+  }, [user?.id])
+
   return (
     <html lang="en">
       <head>
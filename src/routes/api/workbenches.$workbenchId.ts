@@ -0,0 +1,48 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getCurrentUser } from '../../functions/identity'
+import { getWorkbenchStore, updateWorkbench, workbenchUpdateSchema } from '../../functions/workbenches'
+import type { WorkbenchUpdate } from '../../lib/workbenchSync'
+
+export const Route = createFileRoute('/api/workbenches/$workbenchId')({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        const user = await getCurrentUser()
+        if (!user) return json({ error: 'Sign in to continue' }, { status: 401 })
+
+        const workbench = await getWorkbenchStore().get(user.id, params.workbenchId)
+        if (!workbench) return json({ error: 'Workbench not found' }, { status: 404 })
+        return json(workbench)
+      },
+
+      // Per-entity changes; see lib/workbenchSync.ts for the conflict rules
+      PATCH: async ({ params, request }) => {
+        const user = await getCurrentUser()
+        if (!user) return json({ error: 'Sign in to continue' }, { status: 401 })
+
+        const parsed = workbenchUpdateSchema.safeParse(await request.json().catch(() => null))
+        if (!parsed.success) {
+          return json({ error: 'Invalid update', issues: parsed.error.issues }, { status: 400 })
+        }
+
+        // The schema checks the sync fields; node and edge contents are stored as sent
+        const update = parsed.data as unknown as WorkbenchUpdate
+        const result = await updateWorkbench(getWorkbenchStore(), user.id, params.workbenchId, update)
+        if (!result) return json({ error: 'Workbench not found' }, { status: 404 })
+        return json(result)
+      },
+
+      DELETE: async ({ params }) => {
+        const user = await getCurrentUser()
+        if (!user) return json({ error: 'Sign in to continue' }, { status: 401 })
+
+        if (!(await getWorkbenchStore().delete(user.id, params.workbenchId))) {
+          return json({ error: 'Workbench not found' }, { status: 404 })
+        }
+        console.log(`[Workbenches] ${user.username} deleted ${params.workbenchId}`)
+        return new Response(null, { status: 204 })
+      },
+    },
+  },
+})
@@ -0,0 +1,36 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getCurrentUser } from '../../functions/identity'
+import { createWorkbenchSchema, getWorkbenchStore, newRemoteWorkbench } from '../../functions/workbenches'
+
+export const Route = createFileRoute('/api/workbenches/')({
+  server: {
+    handlers: {
+      // Summaries of the signed-in user's workbenches
+      GET: async () => {
+        const user = await getCurrentUser()
+        if (!user) return json({ error: 'Sign in to continue' }, { status: 401 })
+
+        return json(await getWorkbenchStore().list(user.id))
+      },
+
+      // Upload a workbench created on a client; the client picks the id
+      POST: async ({ request }) => {
+        const user = await getCurrentUser()
+        if (!user) return json({ error: 'Sign in to continue' }, { status: 401 })
+
+        const parsed = createWorkbenchSchema.safeParse(await request.json().catch(() => null))
+        if (!parsed.success) {
+          return json({ error: 'Invalid workbench', issues: parsed.error.issues }, { status: 400 })
+        }
+
+        const workbench = newRemoteWorkbench(parsed.data)
+        if (!(await getWorkbenchStore().create(user.id, workbench))) {
+          return json({ error: 'A workbench with this id already exists' }, { status: 409 })
+        }
+        console.log(`[Workbenches] ${user.username} created ${workbench.id} (${workbench.entities.length} entities)`)
+        return json(workbench, { status: 201 })
+      },
+    },
+  },
+})
@@ -0,0 +1,101 @@
+import { createFileRoute, redirect } from '@tanstack/react-router'
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { z } from 'zod'
+import { signIn, signUp } from '../functions/auth'
+
+export const Route = createFileRoute('/login')({
+  validateSearch: z.object({ redirect: z.string().optional() }),
+  beforeLoad: ({ context }) => {
+    if (context.user) throw redirect({ to: '/' })
+  },
+  component: LoginPage,
+})
+
+function LoginPage() {
+  const search = Route.useSearch()
+  const { canSignUp } = Route.useRouteContext()
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const submit = mode === 'signIn' ? signIn : signUp
+      await submit({ data: { username, password } })
+      // A full load, so nothing from a previous user's session stays in memory.
+      // Only same-origin paths are followed.
+      window.location.assign(search.redirect?.startsWith('/') && !search.redirect.startsWith('//') ? search.redirect : '/')
+    } catch (err) {
+      console.error('Sign-in failed:', err)
+      setError(err instanceof Error ? err.message : String(err))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center p-6 mt-16">
+      <form
+        className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 shadow-sm space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSubmit()
+        }}
+      >
+        <h2 className="text-xl font-semibold text-gray-800">
+          {mode === 'signIn' ? 'Sign in to WrkBench' : 'Create an account'}
+        </h2>
+
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">Username</label>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+            className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!username.trim() || !password || isSubmitting}
+          className="w-full flex items-center justify-center gap-2 rounded bg-purple-600 px-3 py-2 text-sm text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+          {mode === 'signIn' ? 'Sign in' : 'Create account'}
+        </button>
+
+        {canSignUp && (
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'signIn' ? 'signUp' : 'signIn')
+              setError(null)
+            }}
+            className="w-full text-xs text-purple-600 hover:text-purple-800"
+          >
+            {mode === 'signIn' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+          </button>
+        )}
+      </form>
+    </div>
+  )
+}
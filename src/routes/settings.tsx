@@ -0,0 +1,172 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { Check, KeyRound, Loader2, Trash2, TriangleAlert } from 'lucide-react'
+import { getApiKeyPolicy, validateApiKey } from '../functions/apiKeys'
+import { deleteApiKey, listApiKeys, saveApiKey, type StoredApiKey } from '../lib/apiKeys'
+import { KEYED_PROVIDER_IDS, PROVIDERS, checkApiKeyFormat, type KeyedProviderId } from '../lib/providers'
+
+export const Route = createFileRoute('/settings')({ component: SettingsPage })
+
+type ApiKeyPolicy = Awaited<ReturnType<typeof getApiKeyPolicy>>
+
+function SettingsPage() {
+  const [storedKeys, setStoredKeys] = useState<StoredApiKey[]>([])
+  const [policy, setPolicy] = useState<ApiKeyPolicy | null>(null)
+
+  const reloadKeys = () =>
+    listApiKeys()
+      .then(setStoredKeys)
+      .catch((error) => console.error('Failed to list API keys:', error))
+
+  useEffect(() => {
+    reloadKeys()
+    getApiKeyPolicy()
+      .then(setPolicy)
+      .catch((error) => console.error('Failed to load the API key policy:', error))
+  }, [])
+
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <h2 className="text-2xl font-semibold text-gray-800">Settings</h2>
+
+      <section className="mt-6">
+        <h3 className="text-lg font-medium text-gray-800">API keys</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Requests made with your own key are billed to your account. Keys are encrypted and stay in this browser;
+          they are sent to the server only with the requests that use them.
+        </p>
+        {policy?.requireUserKeys && (
+          <p className="mt-3 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            <TriangleAlert size={16} className="flex-shrink-0" />
+            Shared keys are disabled on this server. Add your own key for every provider you use.
+          </p>
+        )}
+
+        <div className="mt-4 space-y-4">
+          {KEYED_PROVIDER_IDS.map((provider) => (
+            <ApiKeyCard
+              key={provider}
+              provider={provider}
+              stored={storedKeys.find((key) => key.provider === provider)}
+              hasSharedKey={policy?.sharedKeys[provider]}
+              onChange={reloadKeys}
+            />
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
+
+interface ApiKeyCardProps {
+  provider: KeyedProviderId
+  stored: StoredApiKey | undefined
+  // Undefined while the policy is loading
+  hasSharedKey: boolean | undefined
+  onChange: () => void
+}
+
+function ApiKeyCard({ provider, stored, hasSharedKey, onChange }: ApiKeyCardProps) {
+  const info = PROVIDERS.find((p) => p.id === provider)!
+  const [value, setValue] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null)
+
+  // The key is checked with the provider before it is stored
+  const handleSave = async () => {
+    const apiKey = value.trim()
+    const problem = checkApiKeyFormat(provider, apiKey)
+    if (problem) {
+      setStatus({ ok: false, message: problem })
+      return
+    }
+
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      const result = await validateApiKey({ data: { provider, apiKey } })
+      if (!result.valid) {
+        setStatus({ ok: false, message: result.message || 'The provider rejected this key' })
+        return
+      }
+      await saveApiKey(provider, apiKey)
+      setValue('')
+      setStatus({ ok: true, message: result.message || 'Key saved' })
+      onChange()
+    } catch (error) {
+      console.error(`Failed to save the ${provider} API key:`, error)
+      setStatus({ ok: false, message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove your ${info.label} API key?`)) return
+    await deleteApiKey(provider)
+    setStatus(null)
+    onChange()
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="flex items-center gap-2 font-medium text-gray-800">
+            <KeyRound size={16} className="text-purple-600" />
+            {info.label}
+          </p>
+          <p className="mt-0.5 text-xs text-gray-500">{info.description}</p>
+        </div>
+        {stored && (
+          <button
+            onClick={handleRemove}
+            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+            title="Remove key"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-600">
+        {stored
+          ? `Using your key ending in …${stored.hint} (saved ${new Date(stored.updatedAt).toLocaleDateString()})`
+          : hasSharedKey === undefined
+            ? 'Checking the server configuration...'
+            : hasSharedKey
+              ? 'Using the shared server key'
+              : 'No key available. Requests to this provider will fail until you add one.'}
+      </p>
+
+      <form
+        className="mt-2 flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSave()
+        }}
+      >
+        <input
+          type="password"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={stored ? 'Replace key' : provider === 'openrouter' ? 'sk-or-...' : 'API key'}
+          autoComplete="off"
+          className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={!value.trim() || isSaving}
+          className="flex items-center gap-1 rounded bg-purple-600 px-3 py-1.5 text-sm text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+          {isSaving ? 'Checking...' : 'Save'}
+        </button>
+      </form>
+
+      {status && (
+        <p className={`mt-2 text-xs ${status.ok ? 'text-green-700' : 'text-red-600'}`}>{status.message}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { createFileRoute } from '@tanstack/react-router'
+import Workbench from '../../components/Workbench'
+
+export const Route = createFileRoute('/wb/$workbenchId')({ component: WorkbenchPage })
+
+function WorkbenchPage() {
+  const { workbenchId } = Route.useParams()
+
+  // Keyed so switching workbenches remounts the canvas with fresh state
+  return <Workbench key={workbenchId} workbenchId={workbenchId} />
+}
@@ -4,6 +4,17 @@
 declare namespace Cloudflare {
 	interface Env {
 		OPENROUTER_API_KEY: string;
+		OPENAI_COMPATIBLE_BASE_URL?: string;
+		OPENAI_COMPATIBLE_API_KEY?: string;
+		REQUIRE_USER_API_KEYS?: string;
+		RATE_LIMIT_PER_MINUTE?: string;
+		DAILY_TOKEN_QUOTA?: string;
+		MODEL_ALLOWLIST?: string;
+		LIMITS_KV?: KVNamespace;
+		AUTH_PROVIDER?: string;
+		AUTH_ALLOW_SIGNUP?: string;
+		AUTH_KV?: KVNamespace;
+		WORKBENCH_DB?: D1Database;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -11,7 +22,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENROUTER_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENROUTER_API_KEY" | "OPENAI_COMPATIBLE_BASE_URL" | "OPENAI_COMPATIBLE_API_KEY" | "REQUIRE_USER_API_KEYS" | "RATE_LIMIT_PER_MINUTE" | "DAILY_TOKEN_QUOTA" | "MODEL_ALLOWLIST" | "AUTH_PROVIDER" | "AUTH_ALLOW_SIGNUP">> {}
 }
 
 // Begin runtime types